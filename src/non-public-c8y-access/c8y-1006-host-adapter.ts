@@ -0,0 +1,185 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {ComponentFactory, ComponentRef, Injector, Type, ViewContainerRef} from "@angular/core";
+import {DynamicComponentComponent, DynamicComponentDefinition, DynamicComponentService} from "@c8y/ngx-components";
+import {ContextDashboardModule} from "@c8y/ngx-components/context-dashboard";
+import {Observable} from "rxjs";
+import {distinctUntilChanged} from "rxjs/operators";
+import {C8yHostAdapter, RuntimeWidgetHost, RuntimeWidgetHostHooks} from "./c8y-host-adapter";
+
+/**
+ * Wraps a DynamicComponentComponent from Web SDK 1006-1009, reading the private fields that it keeps its ViewContainerRef and services in
+ */
+class DynamicComponentHost implements RuntimeWidgetHost {
+    constructor(private dynamicComponent: any) {}
+
+    get componentId(): string {
+        return this.dynamicComponent.componentId;
+    }
+
+    get config(): any {
+        return this.dynamicComponent.config;
+    }
+
+    get mode(): 'component' | 'config' {
+        return this.dynamicComponent.mode;
+    }
+
+    clear() {
+        this.viewContainer().clear();
+    }
+
+    createComponent<T>(componentFactory: ComponentFactory<T>, injector?: Injector): ComponentRef<T> {
+        return this.viewContainer().createComponent(componentFactory, undefined, injector);
+    }
+
+    resolveComponentFactory(component: Type<any>): ComponentFactory<any> {
+        if (!this.dynamicComponent.componentFactoryResolver) {
+            throw Error('DynamicComponentComponent has no componentFactoryResolver, this version of Cumulocity is not supported by the runtime widget loader');
+        }
+        return this.dynamicComponent.componentFactoryResolver.resolveComponentFactory(component);
+    }
+
+    setError(error: any) {
+        this.dynamicComponent.error = error;
+    }
+
+    getDefinition$(): Observable<DynamicComponentDefinition | undefined> {
+        return this.dynamicComponent.dynamicComponentService.getById$(this.componentId);
+    }
+
+    private viewContainer(): ViewContainerRef {
+        const host = this.dynamicComponent.host;
+        if (!host || typeof host.createComponent !== 'function') {
+            throw Error('DynamicComponentComponent has no host ViewContainerRef, this version of Cumulocity is not supported by the runtime widget loader');
+        }
+        return host;
+    }
+}
+
+/**
+ * Web SDK 1006 to 1009
+ */
+export class C8y1006HostAdapter implements C8yHostAdapter {
+    readonly name = 'c8y-1006';
+    readonly supportedVersions = '>=1006.0.0 <1010.0.0';
+
+    selfCheck(): string[] {
+        const problems: string[] = [];
+
+        const dynamicComponent = DynamicComponentComponent && (DynamicComponentComponent.prototype as any);
+        if (!dynamicComponent) {
+            problems.push('DynamicComponentComponent is not exported by @c8y/ngx-components');
+        } else {
+            for (const method of ['loadComponent', 'ngOnChanges']) {
+                if (typeof dynamicComponent[method] !== 'function') {
+                    problems.push(`DynamicComponentComponent has no ${method} method`);
+                }
+            }
+        }
+
+        const dynamicComponentService = DynamicComponentService && (DynamicComponentService.prototype as any);
+        if (!dynamicComponentService) {
+            problems.push('DynamicComponentService is not exported by @c8y/ngx-components');
+        } else {
+            for (const method of ['getById$', 'add']) {
+                if (typeof dynamicComponentService[method] !== 'function') {
+                    problems.push(`DynamicComponentService has no ${method} method`);
+                }
+            }
+            if (typeof dynamicComponentService.remove !== 'function' && typeof dynamicComponentService.emitNewState !== 'function') {
+                problems.push('DynamicComponentService has no remove or emitNewState method, widgets can not be unloaded');
+            }
+        }
+
+        if (!this.contextDashboardComponent() || !this.cockpitDashboardComponent()) {
+            problems.push('ContextDashboardModule does not declare the dashboard components in the expected order, the widget actions will not be shown on dashboards');
+        }
+        return problems;
+    }
+
+    patchDynamicComponent(hooks: RuntimeWidgetHostHooks) {
+        const hostOf = (dynamicComponent: any): RuntimeWidgetHost =>
+            dynamicComponent.runtimeWidgetHost || (dynamicComponent.runtimeWidgetHost = new DynamicComponentHost(dynamicComponent));
+
+        // Workaround to access private method of c8y
+        (DynamicComponentComponent.prototype as any).loadComponent = function (dynamicComponent) {
+            try {
+                this.error = undefined;
+                hooks.render(hostOf(this), dynamicComponent);
+            } catch (ex) {
+                this.error = ex;
+            }
+        };
+
+        DynamicComponentComponent.prototype.ngOnChanges = function () {
+            // Tear down the subscription from the previous change, otherwise every change leaks a subscription
+            if (this.runtimeWidgetSubscription) {
+                this.runtimeWidgetSubscription.unsubscribe();
+            }
+            this.runtimeWidgetSubscription = hooks.definition$(hostOf(this))
+                .pipe(distinctUntilChanged())
+                .subscribe(cmp => this.loadComponent(cmp));
+        };
+
+        // Note: this relies on DynamicComponentComponent being compiled with an OnDestroy hook
+        const originalNgOnDestroy = (DynamicComponentComponent.prototype as any).ngOnDestroy;
+        (DynamicComponentComponent.prototype as any).ngOnDestroy = function () {
+            if (this.runtimeWidgetSubscription) {
+                this.runtimeWidgetSubscription.unsubscribe();
+                this.runtimeWidgetSubscription = undefined;
+            }
+            hooks.destroyed(hostOf(this));
+            if (originalNgOnDestroy) {
+                originalNgOnDestroy.apply(this, arguments);
+            }
+        };
+    }
+
+    removeDefinition(dynamicComponentService: DynamicComponentService, definition: DynamicComponentDefinition) {
+        // Workaround: DynamicComponentService has no public way of removing a component, so remove it from the underlying state
+        const service = dynamicComponentService as any;
+        if (typeof service.remove === 'function') {
+            service.remove(definition);
+        } else {
+            service.state.delete(definition);
+            service.emitNewState();
+        }
+    }
+
+    dashboardComponents(): Type<any>[] {
+        return [this.contextDashboardComponent(), this.cockpitDashboardComponent()].filter(component => component !== undefined);
+    }
+
+    // Unfortunately the dashboard components are not part of the public_api so we hack around that
+    private contextDashboardComponent(): Type<any> | undefined {
+        const annotation = this.contextDashboardModuleAnnotation();
+        return annotation && annotation.exports && annotation.exports[0];
+    }
+
+    private cockpitDashboardComponent(): Type<any> | undefined {
+        const annotation = this.contextDashboardModuleAnnotation();
+        return annotation && annotation.declarations && annotation.declarations[0];
+    }
+
+    private contextDashboardModuleAnnotation(): any {
+        const annotations = ContextDashboardModule && (ContextDashboardModule as any).__annotations__;
+        return annotations && annotations[0];
+    }
+}
@@ -0,0 +1,71 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {ComponentFactory, ComponentRef, Injector, Type} from "@angular/core";
+import {DynamicComponentDefinition, DynamicComponentService} from "@c8y/ngx-components";
+import {Observable} from "rxjs";
+
+/**
+ * A DynamicComponentComponent (the component that renders a widget on a dashboard), wrapped so that the loader doesn't touch its private fields
+ */
+export interface RuntimeWidgetHost {
+    readonly componentId: string;
+    readonly config: any;
+    // Whether the widget or its config component is being rendered
+    readonly mode: 'component' | 'config';
+    clear(): void;
+    createComponent<T>(componentFactory: ComponentFactory<T>, injector?: Injector): ComponentRef<T>;
+    // Widget components are rendered with their config set on them, so the factory is untyped
+    resolveComponentFactory(component: Type<any>): ComponentFactory<any>;
+    // Shows an error using the DynamicComponentComponent's own error display
+    setError(error: any): void;
+    // The definition that the DynamicComponentService has for the host's componentId
+    getDefinition$(): Observable<DynamicComponentDefinition | undefined>;
+}
+
+/**
+ * How the loader takes over the rendering of DynamicComponentComponents
+ */
+export interface RuntimeWidgetHostHooks {
+    // Called whenever the host's inputs change, the host renders each (distinct) definition emitted
+    definition$(host: RuntimeWidgetHost): Observable<DynamicComponentDefinition | undefined>;
+    // Renders a definition in the host, undefined if the host's componentId isn't registered
+    render(host: RuntimeWidgetHost, definition: DynamicComponentDefinition | undefined): void;
+    destroyed(host: RuntimeWidgetHost): void;
+}
+
+/**
+ * Everything the loader needs from the Web SDK that isn't part of its public api
+ * Each implementation supports a range of Web SDK versions, the one matching the host application is selected at start-up (see selectHostAdapter)
+ */
+export interface C8yHostAdapter {
+    readonly name: string;
+    // The @c8y/ngx-components versions that the adapter supports, as a compatibility range (eg. ">=1006.0.0 <1010.0.0")
+    readonly supportedVersions: string;
+    /**
+     * Checks that the host's internals are what the adapter expects
+     * @returns A description of each problem found, empty if everything is as expected
+     */
+    selfCheck(): string[];
+    // Routes the rendering of every DynamicComponentComponent through the hooks
+    patchDynamicComponent(hooks: RuntimeWidgetHostHooks): void;
+    // Removes a definition from the DynamicComponentService
+    removeDefinition(dynamicComponentService: DynamicComponentService, definition: DynamicComponentDefinition): void;
+    // The components that the router renders for dashboards
+    dashboardComponents(): Type<any>[];
+}
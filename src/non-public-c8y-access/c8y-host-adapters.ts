@@ -0,0 +1,75 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {satisfiesRange} from "../runtime-widget-loader/runtime-widget-compatibility";
+import {C8yHostAdapter} from "./c8y-host-adapter";
+import {C8y1006HostAdapter} from "./c8y-1006-host-adapter";
+
+// Newest first, add an adapter here when a Web SDK version changes the internals that the loader relies on
+const HOST_ADAPTERS: C8yHostAdapter[] = [
+    new C8y1006HostAdapter()
+];
+
+/**
+ * The adapter selected for the host application, and the result of its self-check
+ */
+export interface C8yHostAdapterSelection {
+    adapter: C8yHostAdapter;
+    // Undefined if the host's Web SDK version wasn't known when the adapter was selected
+    sdkVersion?: string;
+    // Empty if the adapter supports the host's Web SDK version and the host's internals are as expected
+    problems: string[];
+}
+
+let selection: C8yHostAdapterSelection | undefined;
+
+/**
+ * Selects the adapter that supports the host's Web SDK version, falling back to the newest adapter if none do
+ * If the version isn't known then the first adapter whose self-check passes is selected
+ * The selection (and self-check) is only done once
+ * @param sdkVersion The host's @c8y/ngx-components version, if it is known
+ */
+export function selectHostAdapter(sdkVersion?: string): C8yHostAdapterSelection {
+    if (!selection) {
+        if (sdkVersion !== undefined) {
+            const supportingAdapter = HOST_ADAPTERS.find(adapter => satisfiesRange(sdkVersion, adapter.supportedVersions));
+            const adapter = supportingAdapter || HOST_ADAPTERS[0];
+            selection = {adapter, sdkVersion, problems: [...adapterVersionProblems(adapter, sdkVersion), ...selfCheck(adapter)]};
+        } else {
+            const checked = HOST_ADAPTERS.map(adapter => ({adapter, problems: selfCheck(adapter)}));
+            selection = checked.find(candidate => candidate.problems.length === 0) || checked[0];
+        }
+    }
+    return selection;
+}
+
+/**
+ * Checks that an adapter supports the host's Web SDK version, for when the version is only found after the adapter was selected
+ * @returns A description of the problem, empty if the version is supported
+ */
+export function adapterVersionProblems(adapter: C8yHostAdapter, sdkVersion: string): string[] {
+    return satisfiesRange(sdkVersion, adapter.supportedVersions) ? [] : [`Cumulocity ${sdkVersion} is not supported, trying the adapter for ${adapter.supportedVersions}`];
+}
+
+function selfCheck(adapter: C8yHostAdapter): string[] {
+    try {
+        return adapter.selfCheck();
+    } catch (e) {
+        return [`Self-check failed: ${e.message || e}`];
+    }
+}
@@ -1,23 +0,0 @@
-/*
-* Copyright (c) 2019 Software AG, Darmstadt, Germany and/or its licensors
-*
-* SPDX-License-Identifier: Apache-2.0
-*
-* Licensed under the Apache License, Version 2.0 (the "License");
-* you may not use this file except in compliance with the License.
-* You may obtain a copy of the License at
-*
-*    http://www.apache.org/licenses/LICENSE-2.0
-*
-* Unless required by applicable law or agreed to in writing, software
-* distributed under the License is distributed on an "AS IS" BASIS,
-* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
-* See the License for the specific language governing permissions and
-* limitations under the License.
- */
-import {ContextDashboardModule} from "@c8y/ngx-components/context-dashboard";
-import {Type} from "@angular/core";
-
-// Unfortunately this is not part of the public_api so we hack around that
-export type ContextDashboardComponent = import("@c8y/ngx-components/context-dashboard/context-dashboard.component").ContextDashboardComponent;
-export const ContextDashboardComponent: Type<ContextDashboardComponent> = (ContextDashboardModule as any).__annotations__[0].exports[0];
@@ -17,9 +17,21 @@
  */
 
 import { RuntimeWidgetLoaderService } from "./runtime-widget-loader/runtime-widget-loader.service";
+import { RUNTIME_WIDGET_HOST_VERSION } from "./runtime-widget-loader/runtime-widget-host";
 import { RuntimeWidgetInstallerService } from "./runtime-widget-installer/runtime-widget-installer.service";
 import { RuntimeWidgetInstallerModalService } from "./runtime-widget-installer/runtime-widget-installer-modal.service";
 import { RuntimeWidgetInstallerModule } from "./runtime-widget-installer/runtime-widget-installer.module";
+import { RuntimeWidgetManagerModalService } from "./runtime-widget-installer/runtime-widget-manager-modal.service";
+import { RuntimeWidgetLoadReportModalService } from "./runtime-widget-installer/runtime-widget-load-report-modal.service";
+import { RuntimeWidgetDashboardReference, RuntimeWidgetUsage, RuntimeWidgetUsageService } from "./runtime-widget-installer/runtime-widget-usage.service";
+import { RUNTIME_WIDGET_SOURCES, RuntimeWidgetSource, RuntimeWidgetSourceContext, RuntimeWidgetSourceEntry } from "./runtime-widget-loader/runtime-widget-source";
+import { CatalogueWidgetSource, RuntimeWidgetCatalogue, TenantOptionWidgetSource, UrlPrefixWidgetSource } from "./runtime-widget-loader/runtime-widget-sources";
+import { RuntimeWidgetConfigSchema, RuntimeWidgetConfigSchemaProperty } from "./runtime-widget-loader/runtime-widget-config-schema";
 
-export { RuntimeWidgetLoaderService }
+export { RuntimeWidgetLoaderService, RUNTIME_WIDGET_HOST_VERSION }
 export { RuntimeWidgetInstallerService, RuntimeWidgetInstallerModalService, RuntimeWidgetInstallerModule }
+export { RuntimeWidgetManagerModalService, RuntimeWidgetLoadReportModalService }
+export { RuntimeWidgetUsageService, RuntimeWidgetUsage, RuntimeWidgetDashboardReference }
+export { RUNTIME_WIDGET_SOURCES, RuntimeWidgetSource, RuntimeWidgetSourceContext, RuntimeWidgetSourceEntry }
+export { CatalogueWidgetSource, RuntimeWidgetCatalogue, TenantOptionWidgetSource, UrlPrefixWidgetSource }
+export { RuntimeWidgetConfigSchema, RuntimeWidgetConfigSchemaProperty }
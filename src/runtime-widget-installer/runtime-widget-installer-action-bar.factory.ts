@@ -18,45 +18,72 @@
 
 import {ActionBarFactory, ActionBarItem} from "@c8y/ngx-components/core/action-bar/action-bar.model";
 import {RuntimeWidgetInstallerActionBarComponent} from "./runtime-widget-installer-action-bar.component";
+import {RuntimeWidgetManagerActionBarComponent} from "./runtime-widget-manager-action-bar.component";
+import {RuntimeWidgetLoadReportActionBarComponent} from "./runtime-widget-load-report-action-bar.component";
+import {isLoadReportEnabled} from "./runtime-widget-load-report-modal.service";
+import {missingRoles, WIDGET_ADMIN_ROLES} from "../runtime-widget-loader/runtime-widget-roles";
 import {Router} from "@angular/router";
-import {Injectable} from "@angular/core";
+import {Injectable, Injector} from "@angular/core";
 import {map} from "rxjs/operators";
-import {Observable} from "rxjs";
-import {CockpitDashboardComponent} from "../non-public-c8y-access/cockpit-dashboard.component";
-import {ContextDashboardComponent} from "../non-public-c8y-access/context-dashboard.component";
+import {combineLatest, Observable} from "rxjs";
+import {AppStateService} from "@c8y/ngx-components";
+import {UserService} from "@c8y/client";
+import {selectHostAdapter} from "../non-public-c8y-access/c8y-host-adapters";
 
 @Injectable()
 export class RuntimeWidgetInstallerActionBarFactory implements ActionBarFactory {
-    items: ActionBarItem[] = [
+    // Only shown to users that are able to install widgets
+    adminItems: ActionBarItem[] = [
         {
             template: RuntimeWidgetInstallerActionBarComponent,
             placement: 'more',
             priority: 0
+        },
+        {
+            template: RuntimeWidgetManagerActionBarComponent,
+            placement: 'more',
+            priority: 0
         }
     ];
+    items: ActionBarItem[] = [
+        // Only shown when the runtimeWidgetDebug url parameter is set
+        ...isLoadReportEnabled() ? [{
+            template: RuntimeWidgetLoadReportActionBarComponent,
+            placement: 'more' as 'more',
+            priority: 0
+        }] : []
+    ];
 
-    constructor(private router: Router) {}
+    private userService: UserService;
+    constructor(private router: Router, private appStateService: AppStateService, injector: Injector) {
+        // Work around angular/typescript compiler issue (see RuntimeWidgetInstallerService)
+        this.userService = injector.get(UserService);
+    }
 
     get(): Observable<ActionBarItem[]> {
-        return this.router.routerState.root.url.pipe(map(() => {
-            // Check to see if a dashboard is loaded, if it is then show the install widget actionbar item
+        const dashboardComponents = selectHostAdapter().adapter.dashboardComponents();
+        return combineLatest(this.router.routerState.root.url, this.appStateService.currentUser).pipe(map(([, user]) => {
+            // Check to see if a dashboard is loaded, if it is then show the install and manage widget actionbar items
             // How this works: It checks the state of the router to see which component it has loaded.
-            //  If it's a ContextDashboard or CockpitDashboard then we can show the actionbar item.
+            //  If it's a ContextDashboard or CockpitDashboard then we can show the actionbar items.
             // This code would be a lot more readable if we could use the optional chaining operator from TS 3.7
             if (
                 this.router.routerState.root.firstChild &&
                 (
                     (
                         this.router.routerState.root.firstChild.routeConfig &&
-                        [ContextDashboardComponent, CockpitDashboardComponent].includes(this.router.routerState.root.firstChild.routeConfig.component)
+                        dashboardComponents.includes(this.router.routerState.root.firstChild.routeConfig.component)
                     ) || (
                         this.router.routerState.root.firstChild.firstChild &&
                         this.router.routerState.root.firstChild.firstChild.routeConfig &&
-                        [ContextDashboardComponent, CockpitDashboardComponent].includes(this.router.routerState.root.firstChild.firstChild.routeConfig.component)
+                        dashboardComponents.includes(this.router.routerState.root.firstChild.firstChild.routeConfig.component)
                     )
                 )
             ){
-                return this.items;
+                return [
+                    ...missingRoles(this.userService, user, WIDGET_ADMIN_ROLES).length === 0 ? this.adminItems : [],
+                    ...this.items
+                ];
             } else {
                 return [];
             }
@@ -16,62 +16,216 @@
 * limitations under the License.
  */
 
-import {Component} from "@angular/core";
+import {Component, OnInit} from "@angular/core";
 import {BsModalRef} from "ngx-bootstrap/modal";
-import {Alert, AlertService} from "@c8y/ngx-components";
-import {RuntimeWidgetInstallerService} from "./runtime-widget-installer.service";
+import {AlertService} from "@c8y/ngx-components";
+import {contextPathFromURL, RuntimeWidgetAssignments, RuntimeWidgetInstallerService, RuntimeWidgetUpdate, RuntimeWidgetValidationReport} from "./runtime-widget-installer.service";
+import {RuntimeWidgetLoaderService} from "../runtime-widget-loader/runtime-widget-loader.service";
+import {toIndexEntry} from "../runtime-widget-loader/runtime-widget-index";
+
+// A widget zip file selected for installation, either uploaded directly or extracted from a widget set
+interface WidgetUpload {
+    fileName: string;
+    file: Blob;
+    validationReport?: RuntimeWidgetValidationReport;
+    state: 'pending' | 'installing' | 'loading' | 'installed' | 'failed' | 'rolled-back';
+    message?: string;
+    // Set once a deployed widget has been updated, so that the user can roll back
+    update?: RuntimeWidgetUpdate;
+}
 
 @Component({
     templateUrl: './runtime-widget-installer-modal.component.html'
 })
-export class RuntimeWidgetInstallerModalComponent {
+export class RuntimeWidgetInstallerModalComponent implements OnInit {
     busy: boolean = false;
 
-    widgetFile: FileList;
+    // The applications that the widgets can be installed into, the current application is selected by default
+    applications: RuntimeWidgetAssignments['applications'] = [];
+    targetContextPaths: string[] = [contextPathFromURL()];
+    // Install the widgets for every application in the tenant
+    global: boolean = false;
+
+    widgetFiles: FileList;
+    uploads: WidgetUpload[] = [];
+    // Set once the uploads have been installed, the modal is kept open if any failed or were updates (so that they can be rolled back)
+    installed: boolean = false;
+
+    // Set while waiting for the user to confirm that an already deployed widget should be updated
+    pendingUpdate: {fileName: string, deployedVersion?: string, uploadedVersion?: string, resolve: (confirmed: boolean) => void} | undefined;
+
+    constructor(public bsModalRef: BsModalRef, private alertService: AlertService, private widgetInstallerService: RuntimeWidgetInstallerService, private widgetLoaderService: RuntimeWidgetLoaderService) {}
+
+    async ngOnInit() {
+        try {
+            this.applications = (await this.widgetInstallerService.getWidgetAssignments()).applications;
+        } catch(e) {
+            // Only the current application can be targeted
+            console.warn("Failed to list applications\n", e);
+        }
+    }
+
+    isTarget(contextPath: string): boolean {
+        return this.targetContextPaths.includes(contextPath);
+    }
+
+    toggleTarget(contextPath: string) {
+        this.targetContextPaths = this.isTarget(contextPath) ?
+            this.targetContextPaths.filter(target => target !== contextPath) :
+            [...this.targetContextPaths, contextPath];
+    }
 
-    constructor(public bsModalRef: BsModalRef, private alertService: AlertService, private widgetInstallerService: RuntimeWidgetInstallerService) {}
+    async selectWidgetFiles(widgetFiles: FileList) {
+        this.widgetFiles = widgetFiles;
+        this.uploads = [];
+        this.installed = false;
+        if (!widgetFiles || !widgetFiles.length) {
+            return;
+        }
+        try {
+            this.busy = true;
+            const uploads: WidgetUpload[] = [];
+            for (const widgetFile of Array.from(widgetFiles)) {
+                // A widget set is expanded into the widgets it contains
+                const widgetSet = await this.widgetInstallerService.readWidgetSet(widgetFile);
+                if (widgetSet) {
+                    widgetSet.forEach(entry => uploads.push({fileName: `${widgetFile.name}: ${entry.name || entry.contextPath}`, file: entry.file, state: 'pending'}));
+                } else {
+                    uploads.push({fileName: widgetFile.name, file: widgetFile, state: 'pending'});
+                }
+            }
+            const validationReports = await this.widgetInstallerService.validateWidgetPackages(uploads.map(upload => upload.file));
+            validationReports.forEach((validationReport, i) => uploads[i].validationReport = validationReport);
+            this.uploads = uploads;
+        } catch(e) {
+            this.alertService.danger("Failed to validate widget!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    canUpload(): boolean {
+        return !this.busy && !this.installed && this.uploads.length > 0 && (this.targetContextPaths.length > 0 || this.global) && this.uploads.every(upload => upload.validationReport && upload.validationReport.valid);
+    }
 
     async upload() {
         try {
-            const widgetFile = this.widgetFile.item(0);
-            if (!widgetFile) {
+            if (!this.uploads.length) {
                 this.alertService.danger("No widget file selected");
                 return;
             }
-            if(widgetFile.name && widgetFile.name.indexOf(' ') >= 0) {
+            if(Array.from(this.widgetFiles).some(widgetFile => widgetFile.name && widgetFile.name.indexOf(' ') >= 0)) {
                 this.alertService.danger("Widget File name cannot contain SPACE");
                 return;
             }
 
             this.busy = true;
 
-            let currentAlert: Alert = {
-                text: "Uploading widget...",
-                type: "info"
-            }
-            this.alertService.add(currentAlert);
+            // A tenant-wide widget is loaded by every application, so it isn't added to the selected applications as well
+            const targetContextPaths = this.global ? [] : this.targetContextPaths;
+            const results = await this.widgetInstallerService.installWidgets(this.uploads.map(upload => upload.file), targetContextPaths, (i, msg) => {
+                this.uploads[i].state = 'installing';
+                this.uploads[i].message = msg;
+            }, (i, deployedVersion, uploadedVersion) => this.confirmUpdate(this.uploads[i].fileName, deployedVersion, uploadedVersion), this.global);
 
-            await this.widgetInstallerService.installWidget(widgetFile, (msg, type) => {
-                this.alertService.remove(currentAlert);
-                currentAlert = {
-                    text: msg,
-                    type: (type ?  type: "info")
+            results.forEach((result, i) => {
+                const upload = this.uploads[i];
+                if (result.error) {
+                    upload.state = 'failed';
+                    upload.message = result.error.message;
+                } else {
+                    upload.state = 'loading';
+                    upload.message = "Widget Added! Loading...";
+                    upload.update = result.result.update;
                 }
-                this.alertService.add(currentAlert);
             });
 
-            this.alertService.remove(currentAlert);
-            this.alertService.success("Widget Added! Refreshing...");
+            // Widgets installed into other applications are loaded when those applications are next opened
+            const loadHere = this.isTarget(contextPathFromURL()) || this.global;
+            const added = results.filter(result => result.result);
+            if (loadHere && added.length > 0) {
+                // Give cumulocity a chance to load the files
+                await new Promise<void>((resolve => setTimeout(() => resolve(), 5000)));
+            }
+
+            // Load in install order, so that required widgets are loaded first
+            for (const result of added) {
+                const upload = this.uploads[results.indexOf(result)];
+                const {contextPath, update, declaresWidgets} = result.result;
+                if (!loadHere) {
+                    upload.state = 'installed';
+                    upload.message = update ? "Widget Updated!" : "Widget Added!";
+                    continue;
+                }
+                try {
+                    if (update) {
+                        await this.widgetLoaderService.reloadWidget(contextPath);
+                    } else {
+                        await this.widgetLoaderService.loadWidgetByContextPath(contextPath);
+                    }
+                    upload.state = 'installed';
+                    upload.message = update ? "Widget Updated!" : "Widget Added!";
+                } catch(e) {
+                    upload.state = 'failed';
+                    upload.message = `Widget Added, but failed to load: ${e.message}`;
+                    console.error(e);
+                    continue;
+                }
 
-            // Give cumulocity a chance to load the file
-            await new Promise<void>((resolve => setTimeout(() => resolve(), 5000)));
+                // The widget didn't declare its widgets, so record the ones that were loaded (needed for lazy loading)
+                if (!declaresWidgets) {
+                    try {
+                        await this.widgetInstallerService.recordWidgetIndex(contextPath, this.widgetLoaderService.getWidgetDefinitions(contextPath).map(widget => toIndexEntry(contextPath, widget)), this.global);
+                    } catch(e) {
+                        console.warn(`Failed to record the widgets provided by: ${contextPath}, they can't be loaded lazily\n`, e);
+                    }
+                }
+            }
 
-            // TODO: Technically we could just load the widget here... but current we don't support loading multiple times (See todo in loader code)
-            location.reload();
+            this.installed = true;
+            this.busy = false;
+            const failed = this.uploads.filter(upload => upload.state === 'failed').length;
+            if (failed > 0) {
+                this.alertService.danger(`Failed to add ${failed} of ${this.uploads.length} widgets!`);
+            } else if (this.uploads.some(upload => upload.update)) {
+                // Keep the modal open so that the user can roll back
+                this.alertService.success(this.uploads.length > 1 ? "Widgets Added!" : "Widget Updated!");
+            } else {
+                this.alertService.success(this.uploads.length > 1 ? "Widgets Added!" : "Widget Added!");
+                this.bsModalRef.hide();
+            }
         } catch(e) {
             this.alertService.danger("Failed to add widget!", e.message);
             console.error(e);
             this.busy = false;
         }
     }
+
+    confirmUpdate(fileName: string, deployedVersion: string | undefined, uploadedVersion: string | undefined): Promise<boolean> {
+        return new Promise<boolean>(resolve => {
+            this.pendingUpdate = {fileName, deployedVersion, uploadedVersion, resolve};
+        });
+    }
+
+    resolveUpdate(confirmed: boolean) {
+        this.pendingUpdate.resolve(confirmed);
+        this.pendingUpdate = undefined;
+    }
+
+    async rollback(upload: WidgetUpload) {
+        try {
+            this.busy = true;
+            await this.widgetInstallerService.rollbackWidgetUpdate(upload.update);
+            await this.widgetLoaderService.reloadWidget(upload.update.contextPath);
+            upload.state = 'rolled-back';
+            upload.message = "Widget rolled back to the previous version!";
+            this.alertService.success("Widget rolled back to the previous version!");
+        } catch(e) {
+            this.alertService.danger("Failed to roll back widget!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+    }
 }
@@ -21,13 +21,24 @@ import {CommonModule, HOOK_ACTION_BAR} from "@c8y/ngx-components";
 import {RuntimeWidgetInstallerModalComponent} from "./runtime-widget-installer-modal.component";
 import {RuntimeWidgetInstallerActionBarComponent} from "./runtime-widget-installer-action-bar.component";
 import {RuntimeWidgetInstallerActionBarFactory} from "./runtime-widget-installer-action-bar.factory";
+import {RuntimeWidgetManagerModalComponent} from "./runtime-widget-manager-modal.component";
+import {RuntimeWidgetManagerActionBarComponent} from "./runtime-widget-manager-action-bar.component";
+import {RuntimeWidgetLoadReportModalComponent} from "./runtime-widget-load-report-modal.component";
+import {RuntimeWidgetLoadReportActionBarComponent} from "./runtime-widget-load-report-action-bar.component";
+import {RuntimeWidgetLoaderService} from "../runtime-widget-loader/runtime-widget-loader.service";
+import {RuntimeWidgetInstallerModalService} from "./runtime-widget-installer-modal.service";
 
 @NgModule({
-    declarations: [RuntimeWidgetInstallerModalComponent, RuntimeWidgetInstallerActionBarComponent],
+    declarations: [RuntimeWidgetInstallerModalComponent, RuntimeWidgetInstallerActionBarComponent, RuntimeWidgetManagerModalComponent, RuntimeWidgetManagerActionBarComponent, RuntimeWidgetLoadReportModalComponent, RuntimeWidgetLoadReportActionBarComponent],
     imports: [CommonModule],
-    entryComponents: [RuntimeWidgetInstallerModalComponent, RuntimeWidgetInstallerActionBarComponent]
+    entryComponents: [RuntimeWidgetInstallerModalComponent, RuntimeWidgetInstallerActionBarComponent, RuntimeWidgetManagerModalComponent, RuntimeWidgetManagerActionBarComponent, RuntimeWidgetLoadReportModalComponent, RuntimeWidgetLoadReportActionBarComponent]
 })
 export class RuntimeWidgetInstallerModule {
+    constructor(runtimeWidgetLoaderService: RuntimeWidgetLoaderService, installerModalService: RuntimeWidgetInstallerModalService) {
+        // Allow widgets that failed to load to be reinstalled from the dashboard
+        runtimeWidgetLoaderService.setInstallHandler(() => installerModalService.show());
+    }
+
     static forRoot(): ModuleWithProviders {
         return {
             ngModule: RuntimeWidgetInstallerModule,
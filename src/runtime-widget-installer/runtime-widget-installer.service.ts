@@ -17,26 +17,66 @@
  */
 
 import {Injectable, Injector, isDevMode} from "@angular/core";
-import { ApplicationService, IApplication ,InventoryService} from "@c8y/client";
-import { Alert } from '@c8y/ngx-components';
+import { ApplicationService, AuditService, FetchClient, IApplication, UserService} from "@c8y/client";
+import { Alert, AppStateService } from '@c8y/ngx-components';
 import * as JSZip from "jszip";
+import {detectHostC8yVersion, hostVersions, majorVersion, PROVIDED_EXTERNALS} from "../runtime-widget-loader/runtime-widget-host";
+import {compatibilityProblems, sortByRequiredWidgets} from "../runtime-widget-loader/runtime-widget-compatibility";
+import {mergeIndexEntries, RuntimeWidgetIndexEntry} from "../runtime-widget-loader/runtime-widget-index";
+import {
+    INTEGRITY_FRAGMENT,
+    isSignature,
+    readSigningOptions,
+    RuntimeWidgetIntegrityRecord,
+    RuntimeWidgetSignature,
+    sha256Hex,
+    SIGNATURE_FILE,
+    verifySignature
+} from "../runtime-widget-loader/runtime-widget-integrity";
+import {missingRoles, WIDGET_ADMIN_ROLES} from "../runtime-widget-loader/runtime-widget-roles";
+import {GLOBAL_RUNTIME_CONTEXT_TYPE, IAppRuntimeContext, RuntimeContextRepository} from "../runtime-widget-loader/runtime-context-repository";
+
+export {GLOBAL_RUNTIME_CONTEXT_TYPE, IAppRuntimeContext};
 
 
 export function contextPathFromURL() {
     return window.location.pathname.match(/\/apps\/(.*?)\//)[1];
 }
 
+export function appVersion(app: IApplication): string | undefined {
+    // Hosted apps created from a cumulocity.json keep the version at the top level, newer ones have it in the manifest
+    const anyApp = app as any;
+    return (anyApp.manifest && anyApp.manifest.version) || anyApp.version;
+}
+
+/**
+ * Asks the user whether an already deployed widget should be replaced
+ * @param deployedVersion The version of the currently deployed widget (if known)
+ * @param uploadedVersion The version in the uploaded widget's cumulocity.json (if given)
+ */
+export type ConfirmWidgetUpdate = (deployedVersion: string | undefined, uploadedVersion: string | undefined) => Promise<boolean>;
+
+// The file in a widget set archive that lists the widgets it contains
+const WIDGET_SET_MANIFEST = 'widget-set.json';
+const WIDGET_SET_FORMAT = 'runtime-widget-set/1';
+
 @Injectable({providedIn: 'root'})
 export class RuntimeWidgetInstallerService {
     private appService: ApplicationService;
-    private invService: InventoryService;
-    constructor(injector: Injector) {
+    private fetchClient: FetchClient;
+    private auditService: AuditService;
+    private userService: UserService;
+    private runtimeContextRepository: RuntimeContextRepository;
+    constructor(private injector: Injector) {
         // Work around angular/typescript compiler issue...
         // When we put the ApplicationService as an injection token then the compiler generates an import from @c8y/client/lib/src/ApplicationService
         // This seems to only happen when providedIn: root is used...
         // We want to use providedIn: root so that this service is tree-shaken
         this.appService = injector.get(ApplicationService);
-        this.invService =  injector.get(InventoryService);
+        this.fetchClient = injector.get(FetchClient);
+        this.auditService = injector.get(AuditService);
+        this.userService = injector.get(UserService);
+        this.runtimeContextRepository = injector.get(RuntimeContextRepository);
     }
 
     /**
@@ -45,8 +85,10 @@ export class RuntimeWidgetInstallerService {
      * Step2: Update the current application's cumulocity json to include the new widget (in widgetContextPaths array)
      * @param widgetFile
      * @param onUpdate
+     * @param confirmUpdate Called if the widget is already deployed, resolve to true to replace the deployed binary. If omitted the deployed binary is kept
+     * @returns The context path of the installed widget, and the details of the update if the deployed binary was replaced
      */
-    async installWidget(widgetFile: Blob, onUpdate: (msg: string, type?: any) => void = ()=>{}) {
+    async installWidget(widgetFile: Blob, onUpdate: (msg: string, type?: any) => void = ()=>{}, confirmUpdate?: ConfirmWidgetUpdate): Promise<RuntimeWidgetInstallResult> {
         // Check if we're debugging or on localhost - updating the app's cumulocity.json won't work when debugging on localhost so don't do anything
         const currentHost = window.location.host.split(':')[0];
         if (isDevMode() || currentHost === 'localhost' || currentHost === '127.0.0.1') {
@@ -66,7 +108,7 @@ export class RuntimeWidgetInstallerService {
         } 
         
         // step 2 -->
-        this.widgetInstallaitonProcess(appList, app, widgetFile, onUpdate);
+        return await this.widgetInstallaitonProcess(appList, app, widgetFile, onUpdate, confirmUpdate);
     }
 
     /**
@@ -75,8 +117,10 @@ export class RuntimeWidgetInstallerService {
      * Step2: Update the other application's cumulocity json to include the new widget (in widgetContextPaths array)
      * @param widgetFile
      * @param onUpdate
+     * @param confirmUpdate Called if the widget is already deployed, resolve to true to replace the deployed binary. If omitted the deployed binary is kept
+     * @returns The context path of the installed widget, and the details of the update if the deployed binary was replaced
      */
-     async installWidgetWithContext(widgetFile: Blob, contextPath: string, onUpdate: (msg: string, type?: any) => void = ()=>{}) {
+     async installWidgetWithContext(widgetFile: Blob, contextPath: string, onUpdate: (msg: string, type?: any) => void = ()=>{}, confirmUpdate?: ConfirmWidgetUpdate): Promise<RuntimeWidgetInstallResult> {
         
         // Check if we're debugging or on localhost - updating the app's cumulocity.json won't work when debugging on localhost so don't do anything
         const currentHost = window.location.host.split(':')[0];
@@ -97,30 +141,647 @@ export class RuntimeWidgetInstallerService {
         } 
 
         // step 2 -->
-        await this.widgetInstallaitonProcess(appList, app, widgetFile, onUpdate);
+        return await this.widgetInstallaitonProcess(appList, app, widgetFile, onUpdate, confirmUpdate);
         
     }
 
-    private async widgetInstallaitonProcess(appList: any, app: any, widgetFile: Blob, onUpdate: (msg: string, type?: any) => void = ()=>{}) {
-        // Step2: Deploy widget as an application to the tenant (if it doesn't already exist)
+    /**
+     * Installs a widget for every application in the tenant (that uses the runtime widget loader), applications can opt out with setGlobalWidgetExcluded
+     * @param widgetFile
+     * @param onUpdate
+     * @param confirmUpdate Called if the widget is already deployed, resolve to true to replace the deployed binary. If omitted the deployed binary is kept
+     * @returns The context path of the installed widget, and the details of the update if the deployed binary was replaced
+     */
+    async installGlobalWidget(widgetFile: Blob, onUpdate: (msg: string, type?: any) => void = ()=>{}, confirmUpdate?: ConfirmWidgetUpdate): Promise<RuntimeWidgetInstallResult> {
+        // Check if we're debugging or on localhost - updating the app's cumulocity.json won't work when debugging on localhost so don't do anything
+        const currentHost = window.location.host.split(':')[0];
+        if (isDevMode() || currentHost === 'localhost' || currentHost === '127.0.0.1') {
+            throw Error("Can't add a widget when running in Development Mode. Deploy the application first, or edit the package.json file.");
+        }
 
-        // Get the widget's c8yJson so that we can read the context-path (to check if it is already deployed)
+        const appList = (await this.appService.list({pageSize: 2000})).data;
+        return await this.widgetInstallaitonProcess(appList, undefined, widgetFile, onUpdate, confirmUpdate);
+    }
+
+    /**
+     * Installs a widget into several applications, the widget is deployed (or updated) once and then added to each application
+     * @param widgetFile
+     * @param contextPaths The context paths of the applications to install the widget into
+     * @param onUpdate
+     * @param confirmUpdate Called if the widget is already deployed, resolve to true to replace the deployed binary. If omitted the deployed binary is kept
+     * @param global Whether to also install the widget for every application in the tenant
+     * @returns The result of the first install
+     */
+    async installWidgetIntoApplications(widgetFile: Blob, contextPaths: string[], onUpdate: (msg: string, type?: any) => void = ()=>{}, confirmUpdate?: ConfirmWidgetUpdate, global: boolean = false): Promise<RuntimeWidgetInstallResult> {
+        if (contextPaths.length === 0 && !global) {
+            throw Error("No applications selected");
+        }
+        const [firstContextPath, ...otherContextPaths] = global ? [undefined, ...contextPaths] : contextPaths;
+        const result = firstContextPath === undefined ?
+            await this.installGlobalWidget(widgetFile, onUpdate, confirmUpdate) :
+            await this.installWidgetWithContext(widgetFile, firstContextPath, onUpdate, confirmUpdate);
+        for (const contextPath of otherContextPaths) {
+            // Already deployed by the first install, so this only adds the widget to the application
+            await this.installWidgetWithContext(widgetFile, contextPath, () => onUpdate(`Adding to application: ${contextPath}...`));
+        }
+        if (otherContextPaths.length > 0) {
+            onUpdate(global ? `Widget added to the tenant and ${contextPaths.length} applications` : `Widget added to ${contextPaths.length} applications`);
+        }
+        return result;
+    }
+
+    /**
+     * Lists the applications that widgets can be installed into (hosted applications that aren't widgets themselves), and the widgets installed into each
+     */
+    async getWidgetAssignments(): Promise<RuntimeWidgetAssignments> {
+        const appList = (await this.appService.list({pageSize: 2000})).data;
+        await this.migrateLegacyWidgets(appList);
+        const runtimeContexts = await this.runtimeContextRepository.list();
+        const AppRuntimePathList = runtimeContexts.filter(runtimeContext => runtimeContext.type !== GLOBAL_RUNTIME_CONTEXT_TYPE);
+
+        const widgetContextPathsOf = (app: IApplication & {widgetContextPaths?: string[]}): string[] => {
+            const AppRuntimePath = AppRuntimePathList.find(path => path.appId === app.id);
+            return Array.from(new Set([
+                ...app.widgetContextPaths || [],
+                ...(AppRuntimePath && AppRuntimePath.widgetContextPaths) || []
+            ])).filter(contextPath => contextPath && contextPath.length > 0);
+        };
+
+        const GlobalRuntimePath = runtimeContexts.find(runtimeContext => runtimeContext.type === GLOBAL_RUNTIME_CONTEXT_TYPE);
+        const globalWidgetContextPaths: string[] = (GlobalRuntimePath && GlobalRuntimePath.widgetContextPaths) || [];
+
+        const allWidgetContextPaths = new Set<string>(globalWidgetContextPaths);
+        appList.forEach(app => widgetContextPathsOf(app).forEach(contextPath => allWidgetContextPaths.add(contextPath)));
+
+        // An App Builder app may be both subscribed and owned by the tenant, prefer the tenant's own copy (as the installer does)
+        const applications = appList
+            .filter(app => String(app.type) === 'HOSTED' && !allWidgetContextPaths.has(app.contextPath))
+            .filter(app => String(app.availability) === 'PRIVATE' || !appList.some(other => other !== app && other.contextPath === app.contextPath && String(other.availability) === 'PRIVATE'))
+            .sort((a, b) => (a.name || a.contextPath).localeCompare(b.name || b.contextPath));
+
+        return {
+            applications: applications.map(app => {
+                const AppRuntimePath = AppRuntimePathList.find(path => path.appId === app.id);
+                return {
+                    app,
+                    widgetContextPaths: widgetContextPathsOf(app),
+                    excludedGlobalWidgets: (AppRuntimePath && AppRuntimePath.excludedGlobalWidgets) || []
+                };
+            }),
+            globalWidgetContextPaths,
+            widgets: Array.from(allWidgetContextPaths).sort().map(contextPath => ({
+                contextPath,
+                widgetApp: appList.find(widgetApp => widgetApp.contextPath === contextPath)
+            }))
+        };
+    }
+
+    /**
+     * Adds an already deployed widget (and any widgets it requires) to an application
+     * @param appId The id of the application to add the widget to
+     * @param contextPath The context path of the widget's hosted application
+     */
+    async assignWidget(appId: string, contextPath: string) {
+        let requiredWidgets: string[] = [];
+        try {
+            const response = await this.fetchClient.fetch(`/apps/${contextPath}/cumulocity.json?${Date.now()}`);
+            if (response.status === 200) {
+                const compatibility = (await response.json()).compatibility;
+                requiredWidgets = (compatibility && compatibility.requiredWidgets) || [];
+            }
+        } catch (e) {
+            console.warn(`Unable to read the cumulocity.json of widget: ${contextPath}, widgets it requires won't be added\n`, e);
+        }
+        await this.addToRuntimeContext(appId, contextPath, requiredWidgets);
+    }
+
+    /**
+     * Adds an already deployed widget to, or removes it from, the tenant-wide widgets
+     * @param contextPath The context path of the widget's hosted application
+     * @param global
+     */
+    async setGlobalWidget(contextPath: string, global: boolean) {
+        if (global) {
+            await this.addToRuntimeContext(undefined, contextPath, []);
+            return;
+        }
+        const GlobalRuntimePath = await this.runtimeContextRepository.find(undefined);
+        if (GlobalRuntimePath && GlobalRuntimePath.widgetContextPaths && GlobalRuntimePath.widgetContextPaths.includes(contextPath)) {
+            await this.runtimeContextRepository.update(undefined, runtimeContext => ({
+                widgetContextPaths: (runtimeContext.widgetContextPaths || []).filter(globalContextPath => globalContextPath !== contextPath),
+                widgetIndex: mergeIndexEntries(runtimeContext.widgetIndex, contextPath, [])
+            }));
+        }
+    }
+
+    /**
+     * Opts an application out of (or back into) a tenant-wide widget
+     * @param appId The id of the application
+     * @param contextPath The context path of the widget's hosted application
+     * @param excluded Whether the application should not load the widget
+     */
+    async setGlobalWidgetExcluded(appId: string, contextPath: string, excluded: boolean) {
+        await this.runtimeContextRepository.update(appId, runtimeContext => {
+            const excludedGlobalWidgets = (runtimeContext.excludedGlobalWidgets || []).filter(excludedContextPath => excludedContextPath !== contextPath);
+            if (excluded) {
+                excludedGlobalWidgets.push(contextPath);
+            }
+            return {excludedGlobalWidgets};
+        });
+    }
+
+    /**
+     * Installs several widgets into one or more applications, each widget is installed after any widgets it requires from the same batch
+     * A widget that fails to install doesn't stop the rest of the batch, unless they require it
+     * @param widgetFiles
+     * @param contextPaths The context paths of the applications to install the widgets into, defaults to the current application
+     * @param onProgress Called with the index of the widget file that the message is about
+     * @param confirmUpdate Called with the index of the widget file if the widget is already deployed, resolve to true to replace the deployed binary
+     * @param global Whether to also install the widgets for every application in the tenant
+     * @returns The outcome for each widget file, in the same order as the widget files
+     */
+    async installWidgets(widgetFiles: Blob[], contextPaths: string[] = [contextPathFromURL()], onProgress: (index: number, msg: string, type?: any) => void = ()=>{}, confirmUpdate?: (index: number, deployedVersion: string | undefined, uploadedVersion: string | undefined) => Promise<boolean>, global: boolean = false): Promise<RuntimeWidgetBatchInstallResult[]> {
+        const results: RuntimeWidgetBatchInstallResult[] = widgetFiles.map(() => ({}));
+
+        // Work out the install order from each widget's requirements
+        const widgetC8yJsons = await Promise.all(widgetFiles.map(widgetFile => this.readWidgetC8yJson(widgetFile).catch(e => e as Error)));
+        const indexByContextPath = new Map<string, number>();
+        widgetC8yJsons.forEach((widgetC8yJson, i) => {
+            if (widgetC8yJson instanceof Error) {
+                results[i].error = widgetC8yJson;
+            } else if (indexByContextPath.has(widgetC8yJson.contextPath)) {
+                results[i].error = Error(`Widget: ${widgetC8yJson.contextPath}, is already in this batch`);
+            } else {
+                indexByContextPath.set(widgetC8yJson.contextPath, i);
+            }
+        });
+        // Requirements outside of the batch must already be deployed, that is checked when each widget is validated
+        const requiredWidgets = new Map<string, string[]>();
+        indexByContextPath.forEach((i, widgetContextPath) => {
+            const compatibility = widgetC8yJsons[i].compatibility;
+            requiredWidgets.set(widgetContextPath, ((compatibility && compatibility.requiredWidgets) || []).filter(required => indexByContextPath.has(required)));
+        });
+        const {order, problems} = sortByRequiredWidgets(requiredWidgets);
+        problems.forEach((reason, widgetContextPath) => results[indexByContextPath.get(widgetContextPath)].error = Error(reason));
+
+        const failed = new Set<string>(Array.from(problems.keys()));
+        for (const widgetContextPath of order) {
+            const i = indexByContextPath.get(widgetContextPath);
+            const failedRequirement = requiredWidgets.get(widgetContextPath).find(required => failed.has(required));
+            if (failedRequirement !== undefined) {
+                results[i].error = Error(`Requires the widget: ${failedRequirement}, which failed to install`);
+                failed.add(widgetContextPath);
+                continue;
+            }
+            try {
+                onProgress(i, "Installing...");
+                results[i].result = await this.installWidgetIntoApplications(widgetFiles[i], contextPaths, (msg, type) => onProgress(i, msg, type),
+                    confirmUpdate && ((deployedVersion, uploadedVersion) => confirmUpdate(i, deployedVersion, uploadedVersion)), global);
+            } catch (e) {
+                results[i].error = e;
+                failed.add(widgetContextPath);
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Bundles the deployed binary of every widget installed into the current application into a single archive, with a manifest listing the widgets
+     * The archive can be installed into another application (or tenant) with importWidgetSet
+     * @returns The archive, and the context paths of any widgets that couldn't be exported because their application is missing
+     */
+    async exportWidgetSet(onUpdate: (msg: string, type?: any) => void = ()=>{}): Promise<{archive: Blob, skipped: string[]}> {
+        const widgets = await this.getInstalledWidgets();
+        const zip = new JSZip();
+        const manifest: RuntimeWidgetSetManifest = {
+            format: WIDGET_SET_FORMAT,
+            exported: new Date().toISOString(),
+            application: contextPathFromURL(),
+            widgets: []
+        };
+        const skipped: string[] = [];
+        for (const widget of widgets) {
+            if (!widget.widgetApp || !widget.widgetApp.activeVersionId) {
+                skipped.push(widget.contextPath);
+                continue;
+            }
+            onUpdate(`Downloading widget: ${widget.contextPath}...`);
+            const response = await this.fetchClient.fetch(`/application/applications/${widget.widgetApp.id}/binaries/${widget.widgetApp.activeVersionId}`);
+            if (response.status !== 200) {
+                throw Error(`Failed to download widget: ${widget.contextPath}, status: ${response.status}`);
+            }
+            const file = `widgets/${widget.contextPath}.zip`;
+            zip.file(file, new Blob([await response.arrayBuffer()]));
+            manifest.widgets.push({
+                contextPath: widget.contextPath,
+                name: widget.widgetApp.name,
+                ...appVersion(widget.widgetApp) && {version: appVersion(widget.widgetApp)},
+                file
+            });
+        }
+        zip.file(WIDGET_SET_MANIFEST, JSON.stringify(manifest, undefined, 2));
+        return {
+            archive: await zip.generateAsync({type: 'blob'}),
+            skipped
+        };
+    }
+
+    /**
+     * Reads the widgets out of a widget set archive (created by exportWidgetSet)
+     * @returns The widgets in the archive, or undefined if the file isn't a widget set
+     */
+    async readWidgetSet(archive: Blob): Promise<RuntimeWidgetSetEntry[] | undefined> {
+        let zip: JSZip;
+        try {
+            zip = await JSZip.loadAsync(archive);
+        } catch (e) {
+            return undefined;
+        }
+        const manifestFile = zip.file(WIDGET_SET_MANIFEST);
+        if (!manifestFile) {
+            return undefined;
+        }
+        const manifest: RuntimeWidgetSetManifest = JSON.parse(await manifestFile.async("text"));
+        if (manifest.format !== WIDGET_SET_FORMAT) {
+            throw Error(`Unsupported widget set format: ${manifest.format}`);
+        }
+        return await Promise.all(manifest.widgets.map(async widget => {
+            const widgetFile = zip.file(widget.file);
+            if (!widgetFile) {
+                throw Error(`Widget set is missing: ${widget.file}`);
+            }
+            return {
+                contextPath: widget.contextPath,
+                name: widget.name,
+                version: widget.version,
+                file: await widgetFile.async("blob")
+            };
+        }));
+    }
+
+    /**
+     * Installs every widget in a widget set archive (created by exportWidgetSet) into an application
+     * @param archive
+     * @param contextPaths The context paths of the applications to install the widgets into, defaults to the current application
+     */
+    async importWidgetSet(archive: Blob, contextPaths: string[] = [contextPathFromURL()], onProgress: (index: number, msg: string, type?: any) => void = ()=>{}, confirmUpdate?: (index: number, deployedVersion: string | undefined, uploadedVersion: string | undefined) => Promise<boolean>): Promise<RuntimeWidgetBatchInstallResult[]> {
+        const entries = await this.readWidgetSet(archive);
+        if (!entries) {
+            throw Error("Not a widget set");
+        }
+        return await this.installWidgets(entries.map(entry => entry.file), contextPaths, onProgress, confirmUpdate);
+    }
+
+    /**
+     * Lists the widgets installed into the current application
+     * The widget's app is undefined if the widget has been deleted from the tenant (or isn't visible to the current user)
+     */
+    async getInstalledWidgets(): Promise<InstalledRuntimeWidget[]> {
+        const appList = (await this.appService.list({pageSize: 2000})).data;
+        let app: IApplication & {widgetContextPaths?: string[]} = appList.find(app => app.contextPath === contextPathFromURL() &&
+        String(app.availability) === 'PRIVATE');
+        if (!app) {
+            // Own App builder not found. Looking for subscribed one
+            app = appList.find(app => app.contextPath === contextPathFromURL());
+            if(!app) { throw Error('Could not find current application.');}
+        }
+
+        await this.migrateLegacyWidgets([app]);
+        const AppRuntimePath = await this.runtimeContextRepository.find(String(app.id));
+
+        const contextPaths = Array.from(new Set([
+            ...app.widgetContextPaths || [],
+            ...(AppRuntimePath && AppRuntimePath.widgetContextPaths) || []
+        ]));
+
+        // Tenant-wide widgets are listed too, unless this application has opted out of them (or has them installed itself)
+        const GlobalRuntimePath = await this.runtimeContextRepository.find(undefined);
+        const excludedGlobalWidgets: string[] = (AppRuntimePath && AppRuntimePath.excludedGlobalWidgets) || [];
+        const globalContextPaths: string[] = ((GlobalRuntimePath && GlobalRuntimePath.widgetContextPaths) || [])
+            .filter(contextPath => !contextPaths.includes(contextPath) && !excludedGlobalWidgets.includes(contextPath));
+
+        return [...contextPaths, ...globalContextPaths]
+            .filter(contextPath => contextPath && contextPath.length > 0)
+            .map(contextPath => ({
+                contextPath,
+                appId: String(app.id),
+                widgetApp: appList.find(widgetApp => widgetApp.contextPath === contextPath),
+                ...globalContextPaths.includes(contextPath) && {global: true}
+            }));
+    }
+
+    /**
+     * Replaces the binary of an already deployed widget, the new binary becomes the active version
+     * @param contextPath The context path of the widget's hosted application
+     * @param widgetFile
+     * @param onUpdate
+     * @returns The previous and new binary ids, the previous binary can be restored with rollbackWidgetUpdate
+     */
+    async updateWidgetBinary(contextPath: string, widgetFile: Blob, onUpdate: (msg: string, type?: any) => void = ()=>{}): Promise<RuntimeWidgetUpdate> {
+        const appList = (await this.appService.list({pageSize: 2000})).data;
+        const widgetApp = appList.find(app => app.contextPath === contextPath);
+        if (!widgetApp) {
+            throw Error(`Could not find widget application: ${contextPath}`);
+        }
+
+        const widgetC8yJson = await this.readWidgetC8yJson(widgetFile);
+        if (widgetC8yJson.contextPath !== contextPath) {
+            throw Error(`Widget file is for: ${widgetC8yJson.contextPath}, not: ${contextPath}`);
+        }
+
+        const integrity = await this.checkWidgetIntegrity(await JSZip.loadAsync(widgetFile), widgetApp);
+        if (integrity.errors.length) {
+            throw Error(`Widget failed its integrity check: ${integrity.errors.join(', ')}`);
+        }
+
+        // Upload the binary as a new version, keeping the previous one so that we can roll back
+        const appBinary = (await this.appService.binary(widgetApp).upload(widgetFile)).data;
+
+        // Update the app
+        await this.appService.update({
+            id: widgetApp.id,
+            activeVersionId: appBinary.id.toString(),
+            ...integrity.record && {[INTEGRITY_FRAGMENT]: {...(widgetApp as any)[INTEGRITY_FRAGMENT], [appBinary.id.toString()]: integrity.record}}
+        } as any);
+        onUpdate("Widget updated!");
+
+        return {
+            contextPath,
+            widgetAppId: String(widgetApp.id),
+            previousVersion: appVersion(widgetApp),
+            version: widgetC8yJson.version,
+            previousActiveVersionId: widgetApp.activeVersionId,
+            activeVersionId: appBinary.id.toString()
+        };
+    }
+
+    /**
+     * Restores the binary that was active before a widget was updated
+     * @param update The result of a previous update
+     */
+    async rollbackWidgetUpdate(update: RuntimeWidgetUpdate) {
+        if (!update.previousActiveVersionId) {
+            throw Error("Widget has no previous version to roll back to");
+        }
+        await this.appService.update({
+            id: update.widgetAppId,
+            activeVersionId: update.previousActiveVersionId
+        });
+    }
+
+    /**
+     * Inspects a widget zip file before it is deployed, checking that it contains a loadable widget that is compatible with this application
+     * @param widgetFile
+     * @returns A report of any errors (which prevent installation) and warnings
+     */
+    async validateWidgetPackage(widgetFile: Blob): Promise<RuntimeWidgetValidationReport> {
+        const appList = (await this.appService.list({pageSize: 2000})).data;
+        return await this.validateWidgetPackageAgainst(appList, widgetFile);
+    }
+
+    /**
+     * Validates several widget zip files that are going to be installed together, a widget may require another widget in the same batch
+     * @param widgetFiles
+     * @returns A report for each widget file, in the same order as the widget files
+     */
+    async validateWidgetPackages(widgetFiles: Blob[]): Promise<RuntimeWidgetValidationReport[]> {
+        const appList = (await this.appService.list({pageSize: 2000})).data;
+        const batchContextPaths = (await Promise.all(widgetFiles.map(widgetFile => this.readWidgetC8yJson(widgetFile).then(widgetC8yJson => widgetC8yJson.contextPath, () => undefined))))
+            .filter(contextPath => contextPath !== undefined);
+        const reports: RuntimeWidgetValidationReport[] = [];
+        for (const widgetFile of widgetFiles) {
+            reports.push(await this.validateWidgetPackageAgainst(appList, widgetFile, batchContextPaths));
+        }
+        return reports;
+    }
+
+    private async validateWidgetPackageAgainst(appList: IApplication[], widgetFile: Blob, batchContextPaths: string[] = []): Promise<RuntimeWidgetValidationReport> {
+        const report: RuntimeWidgetValidationReport = {
+            valid: false,
+            errors: [],
+            warnings: []
+        };
+
+        let widgetFileZip: JSZip;
+        try {
+            widgetFileZip = await JSZip.loadAsync(widgetFile);
+        } catch (e) {
+            report.errors.push("Not a valid zip file");
+            return report;
+        }
+
+        const c8yJsonFile = widgetFileZip.file('cumulocity.json');
+        if (!c8yJsonFile) {
+            report.errors.push("Missing cumulocity.json");
+            return report;
+        }
         let widgetC8yJson;
+        try {
+            widgetC8yJson = JSON.parse(await c8yJsonFile.async("text"));
+        } catch (e) {
+            report.errors.push("cumulocity.json is not valid JSON");
+            return report;
+        }
+
+        const contextPath = widgetC8yJson.contextPath;
+        report.contextPath = contextPath;
+        report.name = widgetC8yJson.name;
+        report.version = widgetC8yJson.version;
+        if (contextPath === undefined) {
+            report.errors.push("cumulocity.json has no contextPath");
+        } else if (!/^[a-zA-Z0-9_-]+$/.test(contextPath)) {
+            report.errors.push(`Context path: ${contextPath}, may only contain letters, numbers, '-' and '_'`);
+        }
+
+        // Check the files that the loader needs
+        const fileNames = Object.keys(widgetFileZip.files);
+        if (!fileNames.some(fileName => fileName === 'importManifest.js')) {
+            report.errors.push("Missing importManifest.js, the widget was not built for runtime loading");
+        }
+        if (contextPath !== undefined && !fileNames.some(fileName => fileName.indexOf(`${contextPath}-CustomWidget`) >= 0 && fileName.endsWith('.js'))) {
+            report.errors.push(`Missing the ${contextPath}-CustomWidget chunk, the widget's module must be exported from a chunk with this name`);
+        }
+
+        // Compare the versions of any shared modules that the widget was built with
+        const dependencies: {[packageName: string]: string} = widgetC8yJson.dependencies || {};
+        await detectHostC8yVersion(this.injector, contextPathFromURL());
+        const versions = hostVersions();
+        for (const packageName of Object.keys(dependencies)) {
+            if (PROVIDED_EXTERNALS.includes(packageName) && versions[packageName] === undefined) {
+                report.warnings.push(`Unable to check the widget's ${packageName} version, this application's version is not known`);
+            } else if (versions[packageName] !== undefined) {
+                const widgetMajor = majorVersion(dependencies[packageName]);
+                const hostMajor = majorVersion(versions[packageName]);
+                if (widgetMajor !== undefined && widgetMajor !== hostMajor) {
+                    report.errors.push(`Widget was built with ${packageName}@${dependencies[packageName]}, this application uses ${packageName}@${versions[packageName]}`);
+                }
+            } else if (/^@(angular|c8y)\//.test(packageName) && !PROVIDED_EXTERNALS.includes(packageName)) {
+                report.warnings.push(`Widget depends on ${packageName}, which is not shared by this application so the widget must bundle its own copy`);
+            }
+        }
+        if (!widgetC8yJson.dependencies && !widgetC8yJson.compatibility) {
+            report.warnings.push("cumulocity.json does not declare any dependencies or compatibility, unable to check compatibility with this application");
+        }
+
+        // Check the roles that the widget requires
+        const isRoleList = (roles: any) => roles === undefined || (Array.isArray(roles) && roles.every(role => typeof role === 'string'));
+        if (!isRoleList(widgetC8yJson.requiredRoles)) {
+            report.errors.push("cumulocity.json requiredRoles must be a list of role names");
+        }
+        if (Array.isArray(widgetC8yJson.widgets) && !widgetC8yJson.widgets.every(widget => isRoleList(widget.requiredRoles))) {
+            report.errors.push("The requiredRoles of each widget in cumulocity.json must be a list of role names");
+        }
+
+        // Check the widget's declared compatibility
+        report.errors.push(...compatibilityProblems(widgetC8yJson.compatibility, versions));
+        if (widgetC8yJson.compatibility && widgetC8yJson.compatibility.c8yNgxComponents && versions['@c8y/ngx-components'] === undefined) {
+            report.warnings.push(`Unable to check that this application's @c8y/ngx-components version is in the widget's range: ${widgetC8yJson.compatibility.c8yNgxComponents}, the version is not known`);
+        }
+        const requiredWidgets: string[] = (widgetC8yJson.compatibility && widgetC8yJson.compatibility.requiredWidgets) || [];
+        for (const required of requiredWidgets) {
+            if (!appList.some(app => app.contextPath === required) && !batchContextPaths.includes(required)) {
+                report.errors.push(`Requires the widget: ${required}, which is not deployed`);
+            }
+        }
+
+        // Check for clashes with existing applications
+        const existingApp = contextPath !== undefined && appList.find(app => app.contextPath === contextPath);
+        if (existingApp) {
+            if (contextPath === contextPathFromURL()) {
+                report.errors.push(`Context path: ${contextPath}, is the current application`);
+            } else if (String(existingApp.type) !== 'HOSTED') {
+                report.errors.push(`Context path: ${contextPath}, is already used by the ${existingApp.type} application: ${existingApp.name}`);
+            } else {
+                report.warnings.push(`An application with the context path: ${contextPath}, is already deployed (version: ${appVersion(existingApp) || 'unknown'})`);
+            }
+        }
+
+        // Check the widget's signature
+        const integrity = await this.checkWidgetIntegrity(widgetFileZip, existingApp || undefined);
+        report.errors.push(...integrity.errors);
+        report.warnings.push(...integrity.warnings);
+        report.signedBy = integrity.record && integrity.record.keyId;
+        report.integrity = integrity.record;
+
+        report.valid = report.errors.length === 0;
+        return report;
+    }
+
+    /**
+     * Checks the hashes in a widget's signature.json against the widget's files, and the signature against the tenant's trusted keys
+     * @param widgetFileZip
+     * @param existingApp The widget's app, if it is already deployed
+     * @returns Any errors (which prevent installation) and warnings, and the hashes to record if the signature was verified
+     */
+    private async checkWidgetIntegrity(widgetFileZip: JSZip, existingApp?: IApplication): Promise<{errors: string[], warnings: string[], record?: RuntimeWidgetIntegrityRecord}> {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const {trustedKeys, requireSignature} = await readSigningOptions(url => this.fetchClient.fetch(url));
+        // Once a widget has been signed its updates must be signed too, otherwise the loader would refuse to load them
+        const previouslySigned = !!existingApp && Object.keys((existingApp as any)[INTEGRITY_FRAGMENT] || {}).length > 0;
+
+        const signatureFile = widgetFileZip.file(SIGNATURE_FILE);
+        if (!signatureFile) {
+            if (requireSignature) {
+                errors.push(`Widget is not signed (missing ${SIGNATURE_FILE}), this tenant only accepts signed widgets`);
+            } else if (previouslySigned) {
+                errors.push(`Widget is not signed (missing ${SIGNATURE_FILE}), but the deployed widget was signed`);
+            } else {
+                warnings.push(`Widget is not signed (missing ${SIGNATURE_FILE})`);
+            }
+            return {errors, warnings};
+        }
+
+        let signature: RuntimeWidgetSignature;
+        try {
+            signature = JSON.parse(await signatureFile.async("text"));
+        } catch (e) {
+            errors.push(`${SIGNATURE_FILE} is not valid JSON`);
+            return {errors, warnings};
+        }
+        if (!isSignature(signature)) {
+            errors.push(`${SIGNATURE_FILE} must contain an algorithm, a signature and the hash of each file`);
+            return {errors, warnings};
+        }
+
+        // Every file (apart from the signature itself) must be listed, with a matching hash
+        const files = Object.keys(widgetFileZip.files)
+            .filter(fileName => !widgetFileZip.files[fileName].dir && fileName !== SIGNATURE_FILE);
+        for (const fileName of files) {
+            const expected = signature.files[fileName];
+            if (expected === undefined) {
+                errors.push(`File: ${fileName}, is not covered by the signature`);
+            } else if (expected.toLowerCase() !== await sha256Hex(await widgetFileZip.file(fileName).async("arraybuffer"))) {
+                errors.push(`File: ${fileName}, does not match its signed hash`);
+            }
+        }
+        for (const fileName of Object.keys(signature.files)) {
+            if (!files.includes(fileName)) {
+                errors.push(`Signed file: ${fileName}, is missing`);
+            }
+        }
+        if (errors.length) {
+            return {errors, warnings};
+        }
+
+        if (trustedKeys.length === 0) {
+            if (requireSignature || previouslySigned) {
+                errors.push("Widget is signed, but no trusted keys are configured for this tenant");
+            } else {
+                warnings.push("Widget is signed, but no trusted keys are configured for this tenant so the signature was not checked");
+            }
+            return {errors, warnings};
+        }
+
+        const trustedKey = await verifySignature(signature, trustedKeys);
+        if (!trustedKey) {
+            errors.push(`Widget signature is not valid for any of this tenant's trusted keys${signature.keyId ? ` (signed with: ${signature.keyId})` : ''}`);
+            return {errors, warnings};
+        }
+
+        const record: RuntimeWidgetIntegrityRecord = {files: {}, keyId: trustedKey.id, verified: new Date().toISOString()};
+        for (const fileName of files) {
+            record.files[fileName] = signature.files[fileName].toLowerCase();
+        }
+        return {errors, warnings, record};
+    }
+
+    private async readWidgetC8yJson(widgetFile: Blob): Promise<any> {
+        // Get the widget's c8yJson so that we can read the context-path (to check if it is already deployed)
         try {
             const widgetFileZip = await JSZip.loadAsync(widgetFile);
-            widgetC8yJson = JSON.parse(await widgetFileZip.file('cumulocity.json').async("text"));
+            const widgetC8yJson = JSON.parse(await widgetFileZip.file('cumulocity.json').async("text"));
             if (widgetC8yJson.contextPath === undefined) {
                 // noinspection ExceptionCaughtLocallyJS
                 throw Error("Widget has no context path");
             }
+            return widgetC8yJson;
         } catch (e) {
             console.log(e);
             throw Error("Not a valid widget");
         }
+    }
+
+    private async widgetInstallaitonProcess(appList: any, app: any, widgetFile: Blob, onUpdate: (msg: string, type?: any) => void = ()=>{}, confirmUpdate?: ConfirmWidgetUpdate): Promise<RuntimeWidgetInstallResult> {
+        // Step2: Deploy widget as an application to the tenant (if it doesn't already exist)
+
+        const report = await this.validateWidgetPackageAgainst(appList, widgetFile);
+        if (!report.valid) {
+            throw Error(`Not a valid widget: ${report.errors.join(', ')}`);
+        }
+        const widgetC8yJson = await this.readWidgetC8yJson(widgetFile);
 
         // Deploy the widget
-        if (appList.some(app => app.contextPath === widgetC8yJson.contextPath)) {
-            onUpdate("Widget already deployed! Adding to Application...\n You can update a widget via the Apps Administration screen.");
+        let update: RuntimeWidgetUpdate | undefined;
+        const deployedWidgetApp = appList.find(app => app.contextPath === widgetC8yJson.contextPath);
+        if (deployedWidgetApp) {
+            if (confirmUpdate && await confirmUpdate(appVersion(deployedWidgetApp), widgetC8yJson.version)) {
+                onUpdate("Widget already deployed! Updating...");
+                update = await this.updateWidgetBinary(widgetC8yJson.contextPath, widgetFile);
+                onUpdate("Widget updated! Adding to application...");
+            } else {
+                onUpdate("Widget already deployed! Adding to Application...\n You can update a widget via the Apps Administration screen.");
+            }
         } else {
             // Create the widget's app
             const widgetApp = (await this.appService.create({
@@ -132,53 +793,237 @@ export class RuntimeWidgetInstallerService {
             // Upload the binary
             const appBinary = (await this.appService.binary(widgetApp).upload(widgetFile)).data;
 
-            // Update the app
+            // Update the app, recording the verified hashes of a signed widget so that the loader can check them
             await this.appService.update({
                 id: widgetApp.id,
-                activeVersionId: appBinary.id.toString()
-            });
+                activeVersionId: appBinary.id.toString(),
+                ...report.integrity && {[INTEGRITY_FRAGMENT]: {[appBinary.id.toString()]: report.integrity}}
+            } as any);
             onUpdate("Widget deployed! Adding to application...");
         }
 
         // Step 3: Update the app's cumulocity.json to include the new widget
+        // Any widgets that this widget requires are added too (they are loaded first)
+        const requiredWidgets: string[] = (widgetC8yJson.compatibility && widgetC8yJson.compatibility.requiredWidgets) || [];
 
-        
-        const AppRuntimePathList = (await this.invService.list( {pageSize: 2000, query: `type eq app_runtimeContext`})).data;
-        const AppRuntimePath: IAppRuntimeContext & {widgetContextPaths?: string[]} = AppRuntimePathList.find(path => path.appId === app.id);
-        
-        let widgetContextPaths = [];
-        if(AppRuntimePath && AppRuntimePath.widgetContextPaths) {
-            widgetContextPaths = Array.from(new Set([
-                ...AppRuntimePath.widgetContextPaths || [],
-                widgetC8yJson.contextPath
-            ]));
-        } else {
-            widgetContextPaths = Array.from(new Set([
-                widgetC8yJson.contextPath
-            ]));
-        }
-
-        if(AppRuntimePath) {
-            await this.invService.update({
-                id: AppRuntimePath.id,
-                widgetContextPaths,
-                c8y_Global: {}
-            })
-        } else  {
-           await this.invService.create({
-                type: 'app_runtimeContext',
-                appId: app.id,
-                widgetContextPaths,
-                c8y_Global: {}
-            });
+        // Record the widgets that the widget provides (if it declares them) so that they can be loaded lazily
+        const declaredWidgets: RuntimeWidgetIndexEntry[] | undefined = Array.isArray(widgetC8yJson.widgets) ?
+            widgetC8yJson.widgets.map(widget => ({...widget, contextPath: widgetC8yJson.contextPath})) : undefined;
+
+        // Tenant-wide widgets don't have an app
+        await this.addToRuntimeContext(app ? app.id : undefined, widgetC8yJson.contextPath, requiredWidgets, declaredWidgets);
+
+        return {
+            contextPath: widgetC8yJson.contextPath,
+            ...update && {update},
+            declaresWidgets: declaredWidgets !== undefined
+        };
+    }
+
+    /**
+     * Lists the widgets in the runtime contexts whose hosted application no longer exists in the tenant, without changing anything
+     * Only widget admins can see every application in the tenant, so only they can tell whether a widget's application has really gone
+     */
+    async findStaleWidgets(): Promise<RuntimeWidgetStaleEntry[]> {
+        this.checkWidgetAdmin();
+        const appList = (await this.appService.list({pageSize: 2000})).data;
+        const runtimeContexts = await this.runtimeContextRepository.list();
+
+        const staleEntries: RuntimeWidgetStaleEntry[] = [];
+        for (const runtimeContext of runtimeContexts) {
+            const app = runtimeContext.appId !== undefined ? appList.find(app => app.id === runtimeContext.appId) : undefined;
+            ((runtimeContext.widgetContextPaths || []) as string[])
+                .filter(contextPath => contextPath && !appList.some(widgetApp => widgetApp.contextPath === contextPath))
+                .forEach(contextPath => staleEntries.push({
+                    contextPath,
+                    runtimeContextId: String(runtimeContext.id),
+                    ...runtimeContext.appId !== undefined && {appId: runtimeContext.appId},
+                    ...app && {appName: app.name || app.contextPath}
+                }));
+        }
+        return staleEntries;
+    }
+
+    /**
+     * Removes stale widgets (as found by findStaleWidgets) from their runtime contexts, and records an audit of what was removed and by whom
+     * Each entry is checked again before it is removed, entries that are no longer stale (eg. the widget has been redeployed) are skipped
+     * @param entries The entries to remove, as returned by findStaleWidgets
+     * @returns The entries that were removed
+     */
+    async removeStaleWidgets(entries: RuntimeWidgetStaleEntry[]): Promise<RuntimeWidgetStaleEntry[]> {
+        const user = this.checkWidgetAdmin();
+        const stillStale = (await this.findStaleWidgets()).filter(stale =>
+            entries.some(entry => entry.runtimeContextId === stale.runtimeContextId && entry.contextPath === stale.contextPath)
+        );
+
+        const removed: RuntimeWidgetStaleEntry[] = [];
+        for (const runtimeContextId of Array.from(new Set(stillStale.map(entry => entry.runtimeContextId)))) {
+            const contextEntries = stillStale.filter(entry => entry.runtimeContextId === runtimeContextId);
+            const contextPaths = contextEntries.map(entry => entry.contextPath);
+            await this.runtimeContextRepository.update(contextEntries[0].appId, runtimeContext => ({
+                widgetContextPaths: ((runtimeContext.widgetContextPaths || []) as string[]).filter(contextPath => !contextPaths.includes(contextPath)),
+                ...runtimeContext.widgetIndex && {widgetIndex: runtimeContext.widgetIndex.filter(entry => !contextPaths.includes(entry.contextPath))},
+                ...runtimeContext.excludedGlobalWidgets && {excludedGlobalWidgets: runtimeContext.excludedGlobalWidgets.filter(contextPath => !contextPaths.includes(contextPath))}
+            }));
+            removed.push(...contextEntries);
+
+            const target = contextEntries[0].appId !== undefined ? `application: ${contextEntries[0].appName || contextEntries[0].appId}` : 'every application (tenant-wide)';
+            await this.auditService.create({
+                type: 'Inventory',
+                activity: 'Runtime widgets removed',
+                text: `${user.userName} removed widgets whose applications no longer exist: ${contextPaths.join(', ')}, from ${target}`,
+                time: new Date().toISOString(),
+                source: {id: runtimeContextId},
+                user: user.userName,
+                severity: 'information'
+            } as any);
+        }
+        return removed;
+    }
+
+    private checkWidgetAdmin() {
+        const user = this.injector.get(AppStateService).currentUser.value;
+        const missing = missingRoles(this.userService, user, WIDGET_ADMIN_ROLES);
+        if (missing.length > 0) {
+            throw Error(`Requires the roles: ${missing.join(', ')}`);
         }
+        return user;
+    }
+
+    private async addToRuntimeContext(appId: string | undefined, contextPath: string, requiredWidgets: string[], declaredWidgets?: RuntimeWidgetIndexEntry[]) {
+        const contextPaths = [...requiredWidgets, contextPath];
+        await this.runtimeContextRepository.update(appId, runtimeContext => ({
+            widgetContextPaths: Array.from(new Set([
+                ...runtimeContext.widgetContextPaths || [],
+                ...contextPaths
+            ])),
+            ...declaredWidgets && {widgetIndex: mergeIndexEntries(runtimeContext.widgetIndex, contextPath, declaredWidgets)}
+        }));
+    }
+
+    /**
+     * Copies widgets installed the legacy way (in the application's widgetContextPaths) into the applications' runtime contexts
+     */
+    private async migrateLegacyWidgets(apps: IApplication[]) {
+        for (const app of apps) {
+            try {
+                await this.runtimeContextRepository.migrateLegacyWidgets(app);
+            } catch (e) {
+                console.warn(`Unable to copy the widgets of application: ${app.contextPath}, into its runtime context\n`, e);
+            }
+        }
+    }
+
+    /**
+     * Records the widgets provided by a widget's hosted application in the current application's widget index, so that they can be loaded lazily
+     * Used for widgets that don't declare their widgets in their cumulocity.json, once they have been loaded
+     * @param contextPath The context path of the widget's hosted application
+     * @param entries
+     * @param global Whether the widget is installed tenant-wide, its widgets are then recorded in the tenant-wide widget index so that every application can load them lazily
+     */
+    async recordWidgetIndex(contextPath: string, entries: RuntimeWidgetIndexEntry[], global: boolean = false) {
+        let appId: string | undefined;
+        if (!global) {
+            const appList = (await this.appService.list({pageSize: 2000})).data;
+            let app: IApplication & {widgetContextPaths?: string[]} = appList.find(app => app.contextPath === contextPathFromURL() &&
+            String(app.availability) === 'PRIVATE');
+            if (!app) {
+                // Own App builder not found. Looking for subscribed one
+                app = appList.find(app => app.contextPath === contextPathFromURL());
+                if(!app) { throw Error('Could not find current application.');}
+            }
+            appId = String(app.id);
+        }
+
+        if (!await this.runtimeContextRepository.find(appId)) {
+            throw Error(global ? 'Could not find the tenant-wide runtime context.' : 'Could not find the runtime context of the current application.');
+        }
+        await this.runtimeContextRepository.update(appId, runtimeContext => ({
+            widgetIndex: mergeIndexEntries(runtimeContext.widgetIndex, contextPath, entries)
+        }));
     }
 
 }
 
-export interface IAppRuntimeContext {
-    id?: any;
-    widgetContextPaths?: any;
-    type?: string;
+export interface InstalledRuntimeWidget {
+    contextPath: string;
+    appId: string;
+    widgetApp?: IApplication;
+    // Whether the widget is installed tenant-wide, rather than into the application
+    global?: boolean;
+}
+
+export interface RuntimeWidgetStaleEntry {
+    contextPath: string;
+    // The id of the runtime context that lists the widget
+    runtimeContextId: string;
+    // The application whose app_runtimeContext lists the widget, undefined for the tenant-wide runtime context
     appId?: string;
+    appName?: string;
+}
+
+export interface RuntimeWidgetUpdate {
+    contextPath: string;
+    widgetAppId: string;
+    previousVersion?: string;
+    version?: string;
+    previousActiveVersionId?: string;
+    activeVersionId: string;
+}
+
+export interface RuntimeWidgetInstallResult {
+    contextPath: string;
+    update?: RuntimeWidgetUpdate;
+    // Whether the widget's cumulocity.json declares the widgets it provides (these have been added to the widget index)
+    declaresWidgets: boolean;
+}
+
+export interface RuntimeWidgetValidationReport {
+    valid: boolean;
+    contextPath?: string;
+    name?: string;
+    version?: string;
+    // The id of the trusted key that the widget was signed with, if the signature was verified
+    signedBy?: string;
+    // The verified hashes of the widget's files, if the signature was verified
+    integrity?: RuntimeWidgetIntegrityRecord;
+    errors: string[];
+    warnings: string[];
+}
+
+export interface RuntimeWidgetAssignments {
+    // The applications that widgets can be installed into, with the widgets installed into each
+    applications: {app: IApplication, widgetContextPaths: string[], excludedGlobalWidgets: string[]}[];
+    // The widgets installed for every application, unless the application is excluded
+    globalWidgetContextPaths: string[];
+    // Every widget installed into any of the applications, the widget's app is undefined if it has been deleted
+    widgets: {contextPath: string, widgetApp?: IApplication}[];
+}
+
+export interface RuntimeWidgetBatchInstallResult {
+    // Set if the widget was installed
+    result?: RuntimeWidgetInstallResult;
+    // Set if the widget wasn't installed
+    error?: Error;
+}
+
+export interface RuntimeWidgetSetManifest {
+    format: string;
+    exported: string;
+    // The context path of the application that the widgets were exported from
+    application: string;
+    widgets: {
+        contextPath: string;
+        name?: string;
+        version?: string;
+        // The widget's zip file within the archive
+        file: string;
+    }[];
+}
+
+export interface RuntimeWidgetSetEntry {
+    contextPath: string;
+    name?: string;
+    version?: string;
+    file: Blob;
 }
@@ -0,0 +1,34 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Component} from "@angular/core";
+import {RuntimeWidgetLoadReportModalService} from "./runtime-widget-load-report-modal.service";
+
+@Component({
+    selector: 'li[runtime-widget-load-report-actionbar-item]',
+    template: `
+        <button (click)="showLoadReportModal()"><i c8yIcon="bug"></i> Widget Load Report</button>
+    `
+})
+export class RuntimeWidgetLoadReportActionBarComponent {
+    constructor(private modalService: RuntimeWidgetLoadReportModalService) {}
+
+    showLoadReportModal() {
+        this.modalService.show();
+    }
+}
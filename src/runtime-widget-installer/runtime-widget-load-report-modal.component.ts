@@ -0,0 +1,80 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Component} from "@angular/core";
+import {BsModalRef} from "ngx-bootstrap/modal";
+import {AlertService} from "@c8y/ngx-components";
+import {RuntimeWidgetLoaderService, RuntimeWidgetLoadReportEntry} from "../runtime-widget-loader/runtime-widget-loader.service";
+
+@Component({
+    templateUrl: './runtime-widget-load-report-modal.component.html'
+})
+export class RuntimeWidgetLoadReportModalComponent {
+    phases = ['compatibility', 'manifest', 'chunk', 'compile', 'register'];
+
+    constructor(public bsModalRef: BsModalRef, public widgetLoaderService: RuntimeWidgetLoaderService, private alertService: AlertService) {}
+
+    duration(entry: RuntimeWidgetLoadReportEntry): string {
+        return entry.finished !== undefined ? `${entry.finished - entry.started}ms` : '';
+    }
+
+    timing(entry: RuntimeWidgetLoadReportEntry, phase: string): string {
+        return entry.timings[phase] !== undefined ? `${entry.timings[phase]}ms` : '';
+    }
+
+    /**
+     * Copies the raw report to the clipboard, support tickets need it
+     */
+    async copyReport(report: RuntimeWidgetLoadReportEntry[]) {
+        const text = JSON.stringify(report, undefined, 2);
+        try {
+            if (navigator.clipboard && navigator.clipboard.writeText) {
+                await navigator.clipboard.writeText(text);
+            } else {
+                copyWithTextArea(text);
+            }
+            this.alertService.success('Widget load report copied to the clipboard.');
+        } catch (e) {
+            try {
+                // The clipboard api is only available in secure contexts, and may be blocked by the browser's permissions
+                copyWithTextArea(text);
+                this.alertService.success('Widget load report copied to the clipboard.');
+            } catch (fallbackError) {
+                console.error('Unable to copy the widget load report\n', fallbackError);
+                this.alertService.danger('Unable to copy the widget load report to the clipboard.', fallbackError.message || String(fallbackError));
+            }
+        }
+    }
+}
+
+function copyWithTextArea(text: string) {
+    const textArea = document.createElement('textarea');
+    textArea.value = text;
+    // Keep it out of view (and stop the page from scrolling to it)
+    textArea.style.position = 'fixed';
+    textArea.style.opacity = '0';
+    document.body.appendChild(textArea);
+    try {
+        textArea.select();
+        if (!document.execCommand('copy')) {
+            throw Error('The browser refused to copy the text');
+        }
+    } finally {
+        document.body.removeChild(textArea);
+    }
+}
@@ -0,0 +1,41 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Injectable} from "@angular/core";
+import {BsModalRef, BsModalService} from "ngx-bootstrap/modal";
+import {RuntimeWidgetLoadReportModalComponent} from "./runtime-widget-load-report-modal.component";
+
+/**
+ * Whether the widget load report has been enabled with the runtimeWidgetDebug url parameter
+ * e.g. /apps/cockpit/index.html?runtimeWidgetDebug#/ or /apps/cockpit/index.html#/?runtimeWidgetDebug
+ */
+export function isLoadReportEnabled(): boolean {
+    return /[?&]runtimeWidgetDebug(=|&|#|$)/.test(window.location.search + window.location.hash);
+}
+
+@Injectable({providedIn: 'root'})
+export class RuntimeWidgetLoadReportModalService {
+    bsModalRef: BsModalRef;
+
+    constructor(private modalService: BsModalService) {}
+
+    show(): BsModalRef {
+        this.bsModalRef = this.modalService.show(RuntimeWidgetLoadReportModalComponent, { class: 'c8y-wizard modal-lg' });
+        return this.bsModalRef;
+    }
+}
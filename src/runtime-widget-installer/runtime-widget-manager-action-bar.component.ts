@@ -1,5 +1,5 @@
 /*
-* Copyright (c) 2019 Software AG, Darmstadt, Germany and/or its licensors
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
 *
 * SPDX-License-Identifier: Apache-2.0
 *
@@ -15,9 +15,20 @@
 * See the License for the specific language governing permissions and
 * limitations under the License.
  */
-import {ContextDashboardModule} from "@c8y/ngx-components/context-dashboard";
-import {Type} from "@angular/core";
 
-// Unfortunately this is not part of the public_api so we hack around that
-export type CockpitDashboardComponent = import("@c8y/ngx-components/context-dashboard/context-dashboard.component").ContextDashboardComponent;
-export const CockpitDashboardComponent: Type<CockpitDashboardComponent> = (ContextDashboardModule as any).__annotations__[0].declarations[0];
+import {Component} from "@angular/core";
+import {RuntimeWidgetManagerModalService} from "./runtime-widget-manager-modal.service";
+
+@Component({
+    selector: 'li[runtime-widget-manager-actionbar-item]',
+    template: `
+        <button (click)="showManageModal()"><i c8yIcon="puzzle-piece"></i> Manage Widgets</button>
+    `
+})
+export class RuntimeWidgetManagerActionBarComponent {
+    constructor(private modalService: RuntimeWidgetManagerModalService) {}
+
+    showManageModal() {
+        this.modalService.show();
+    }
+}
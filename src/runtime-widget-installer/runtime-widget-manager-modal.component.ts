@@ -0,0 +1,381 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Component, OnInit} from "@angular/core";
+import {BsModalRef} from "ngx-bootstrap/modal";
+import {Alert, AlertService} from "@c8y/ngx-components";
+import {appVersion, contextPathFromURL, InstalledRuntimeWidget, RuntimeWidgetAssignments, RuntimeWidgetInstallerService, RuntimeWidgetStaleEntry} from "./runtime-widget-installer.service";
+import {RuntimeWidgetLoaderService} from "../runtime-widget-loader/runtime-widget-loader.service";
+import {RuntimeWidgetUsage, RuntimeWidgetUsageService} from "./runtime-widget-usage.service";
+
+@Component({
+    templateUrl: './runtime-widget-manager-modal.component.html'
+})
+export class RuntimeWidgetManagerModalComponent implements OnInit {
+    busy: boolean = false;
+
+    widgets: InstalledRuntimeWidget[] = [];
+
+    view: 'installed' | 'applications' = 'installed';
+    // Which widgets are installed into which applications, loaded when the applications view is first shown
+    assignments: RuntimeWidgetAssignments | undefined;
+    // The widgets whose applications have been deleted (a dry run), shown for confirmation before they are removed
+    staleWidgets: {entries: RuntimeWidgetStaleEntry[], usage: RuntimeWidgetUsage[]} | undefined;
+    // Set while waiting for the user to confirm the removal of a widget that dashboards may still be using
+    pendingRemoval: {widgetName: string, appName: string, usage?: RuntimeWidgetUsage, scanError?: string, resolve: (confirmed: boolean) => void} | undefined;
+
+    constructor(public bsModalRef: BsModalRef, private alertService: AlertService, private widgetInstallerService: RuntimeWidgetInstallerService, private widgetLoaderService: RuntimeWidgetLoaderService, private widgetUsageService: RuntimeWidgetUsageService) {}
+
+    ngOnInit() {
+        this.refresh();
+    }
+
+    async refresh() {
+        try {
+            this.busy = true;
+            this.widgets = await this.widgetInstallerService.getInstalledWidgets();
+        } catch(e) {
+            this.alertService.danger("Failed to list widgets!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    async showApplications() {
+        this.view = 'applications';
+        if (!this.assignments) {
+            await this.refreshAssignments();
+        }
+    }
+
+    async refreshAssignments() {
+        try {
+            this.busy = true;
+            this.assignments = await this.widgetInstallerService.getWidgetAssignments();
+        } catch(e) {
+            this.alertService.danger("Failed to list applications!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    isGlobal(contextPath: string): boolean {
+        return this.assignments.globalWidgetContextPaths.includes(contextPath);
+    }
+
+    isAssigned(application: RuntimeWidgetAssignments['applications'][0], contextPath: string): boolean {
+        return application.widgetContextPaths.includes(contextPath) ||
+            (this.isGlobal(contextPath) && !application.excludedGlobalWidgets.includes(contextPath));
+    }
+
+    async toggleGlobal(widget: RuntimeWidgetAssignments['widgets'][0]) {
+        const widgetName = widget.widgetApp ? widget.widgetApp.name : widget.contextPath;
+        const global = !this.isGlobal(widget.contextPath);
+        try {
+            this.busy = true;
+            await this.widgetInstallerService.setGlobalWidget(widget.contextPath, global);
+            this.alertService.success(global ? `Widget: ${widgetName}, added to every application` : `Widget: ${widgetName}, is no longer tenant-wide`);
+        } catch(e) {
+            this.alertService.danger("Failed to change widget assignment!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+        await this.refreshAssignments();
+        await this.refresh();
+    }
+
+    async toggleAssignment(application: RuntimeWidgetAssignments['applications'][0], widget: RuntimeWidgetAssignments['widgets'][0]) {
+        const isCurrentApp = application.app.contextPath === contextPathFromURL();
+        const widgetName = widget.widgetApp ? widget.widgetApp.name : widget.contextPath;
+        const appName = application.app.name || application.app.contextPath;
+        const appId = String(application.app.id);
+        try {
+            this.busy = true;
+            if (this.isGlobal(widget.contextPath) && !application.widgetContextPaths.includes(widget.contextPath)) {
+                // Tenant-wide widgets are opted out of (or back into) per application
+                const exclude = !application.excludedGlobalWidgets.includes(widget.contextPath);
+                if (exclude && !await this.confirmRemoval(widget.contextPath, widgetName, appName)) {
+                    // Reset the checkbox
+                    this.busy = false;
+                    await this.refreshAssignments();
+                    return;
+                }
+                await this.widgetInstallerService.setGlobalWidgetExcluded(appId, widget.contextPath, exclude);
+                if (isCurrentApp) {
+                    if (exclude) {
+                        await this.widgetLoaderService.unloadWidgetsByContextPath(widget.contextPath);
+                    } else {
+                        await this.widgetLoaderService.loadWidgetByContextPath(widget.contextPath);
+                    }
+                }
+                this.alertService.success(exclude ? `Widget: ${widgetName}, removed from: ${appName}` : `Widget: ${widgetName}, added to: ${appName}`);
+            } else if (this.isAssigned(application, widget.contextPath)) {
+                if (!await this.confirmRemoval(widget.contextPath, widgetName, appName)) {
+                    // Reset the checkbox
+                    this.busy = false;
+                    await this.refreshAssignments();
+                    return;
+                }
+                await this.widgetLoaderService.removeWidgetFromApp(appId, widget.contextPath);
+                if (isCurrentApp) {
+                    await this.widgetLoaderService.unloadWidgetsByContextPath(widget.contextPath);
+                }
+                this.alertService.success(`Widget: ${widgetName}, removed from: ${appName}`);
+            } else {
+                await this.widgetInstallerService.assignWidget(appId, widget.contextPath);
+                if (isCurrentApp) {
+                    await this.widgetLoaderService.loadWidgetByContextPath(widget.contextPath);
+                }
+                this.alertService.success(`Widget: ${widgetName}, added to: ${appName}`);
+            }
+        } catch(e) {
+            this.alertService.danger("Failed to change widget assignment!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+        await this.refreshAssignments();
+        if (isCurrentApp) {
+            await this.refresh();
+        }
+    }
+
+    name(widget: InstalledRuntimeWidget): string {
+        return widget.widgetApp ? widget.widgetApp.name : widget.contextPath;
+    }
+
+    version(widget: InstalledRuntimeWidget): string {
+        return (widget.widgetApp && appVersion(widget.widgetApp)) || '';
+    }
+
+    status(widget: InstalledRuntimeWidget): string {
+        if (!widget.widgetApp) {
+            return 'Application missing';
+        }
+        switch (this.widgetLoaderService.getLoadStatus(widget.contextPath)) {
+            case 'loading': return 'Loading';
+            case 'lazy': return 'Not loaded yet (lazy)';
+            case 'loaded': return 'Loaded';
+            case 'manifest-missing': return 'Manifest missing';
+            case 'chunk-missing': return 'Widget module missing';
+            case 'compile-failed': return 'Compile failed';
+            case 'incompatible': return 'Incompatible';
+            case 'requirement-missing': return 'Required widget missing';
+            case 'not-permitted': return 'Not permitted for this user';
+            case 'integrity-failed': return 'Integrity check failed';
+            case 'timed-out': return 'Timed out';
+            case 'failed': return 'Failed';
+            default: return 'Not loaded';
+        }
+    }
+
+    loadError(widget: InstalledRuntimeWidget): string {
+        return this.widgetLoaderService.getLoadError(widget.contextPath) || '';
+    }
+
+    async remove(widget: InstalledRuntimeWidget) {
+        try {
+            this.busy = true;
+            if (!await this.confirmRemoval(widget.contextPath, this.name(widget), 'this application')) {
+                return;
+            }
+            if (widget.global) {
+                // Tenant-wide widgets stay installed for the rest of the tenant, this application opts out of them
+                await this.widgetInstallerService.setGlobalWidgetExcluded(widget.appId, widget.contextPath, true);
+            } else {
+                await this.widgetLoaderService.removeWidgetFromApp(widget.appId, widget.contextPath);
+            }
+            await this.widgetLoaderService.unloadWidgetsByContextPath(widget.contextPath);
+            this.alertService.success(`Widget: ${this.name(widget)}, removed from application`);
+        } catch(e) {
+            this.alertService.danger("Failed to remove widget!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+        await this.refresh();
+    }
+
+    /**
+     * Checks whether any dashboards use the widget, if they do (or they couldn't be checked) the user is asked to confirm the removal
+     */
+    private async confirmRemoval(contextPath: string, widgetName: string, appName: string): Promise<boolean> {
+        let usage: RuntimeWidgetUsage | undefined;
+        let scanError: string | undefined;
+        try {
+            [usage] = await this.widgetUsageService.getWidgetUsage([contextPath]);
+        } catch(e) {
+            console.error(e);
+            scanError = e.message || String(e);
+        }
+        if (usage && usage.widgetIdsKnown && usage.dashboards.length === 0) {
+            return true;
+        }
+        return new Promise<boolean>(resolve => {
+            this.pendingRemoval = {widgetName, appName, usage, scanError, resolve};
+        });
+    }
+
+    resolveRemoval(confirmed: boolean) {
+        this.pendingRemoval.resolve(confirmed);
+        this.pendingRemoval = undefined;
+    }
+
+    deviceNames(devices: {id: string, name?: string}[]): string {
+        return devices.map(device => device.name ? `${device.name} (${device.id})` : device.id).join(', ');
+    }
+
+    async findStaleWidgets() {
+        try {
+            this.busy = true;
+            const entries = await this.widgetInstallerService.findStaleWidgets();
+            if (entries.length === 0) {
+                this.alertService.success("No stale widgets found");
+                return;
+            }
+            let usage: RuntimeWidgetUsage[] = [];
+            try {
+                usage = await this.widgetUsageService.getWidgetUsage(Array.from(new Set(entries.map(entry => entry.contextPath))));
+            } catch(e) {
+                console.warn('Unable to check which dashboards use the stale widgets\n', e);
+            }
+            this.staleWidgets = {entries, usage};
+        } catch(e) {
+            this.alertService.danger("Failed to check for stale widgets!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    staleWidgetDashboards(contextPath: string): number {
+        const usage = this.staleWidgets.usage.find(widgetUsage => widgetUsage.contextPath === contextPath);
+        return usage ? usage.dashboards.length : 0;
+    }
+
+    async removeStaleWidgets(confirmed: boolean) {
+        const entries = this.staleWidgets.entries;
+        this.staleWidgets = undefined;
+        if (!confirmed) {
+            return;
+        }
+        try {
+            this.busy = true;
+            const removed = await this.widgetInstallerService.removeStaleWidgets(entries);
+            this.alertService.success(`Removed ${removed.length} stale widget(s)`);
+            if (removed.length < entries.length) {
+                this.alertService.warning("Some widgets were not removed, they are no longer stale");
+            }
+        } catch(e) {
+            this.alertService.danger("Failed to remove stale widgets!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+        this.assignments = undefined;
+        if (this.view === 'applications') {
+            await this.refreshAssignments();
+        }
+        await this.refresh();
+    }
+
+    async exportWidgetSet() {
+        try {
+            this.busy = true;
+
+            let currentAlert: Alert = {
+                text: "Exporting widgets...",
+                type: "info"
+            }
+            this.alertService.add(currentAlert);
+
+            const {archive, skipped} = await this.widgetInstallerService.exportWidgetSet((msg, type) => {
+                this.alertService.remove(currentAlert);
+                currentAlert = {
+                    text: msg,
+                    type: (type ?  type: "info")
+                }
+                this.alertService.add(currentAlert);
+            });
+            this.alertService.remove(currentAlert);
+
+            // Download the archive
+            const url = URL.createObjectURL(archive);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${contextPathFromURL()}-widgets.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            setTimeout(() => URL.revokeObjectURL(url));
+
+            if (skipped.length > 0) {
+                this.alertService.warning("Some widgets were not exported, their applications are missing", skipped.join(', '));
+            } else {
+                this.alertService.success("Widgets exported!");
+            }
+        } catch(e) {
+            this.alertService.danger("Failed to export widgets!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    async replace(widget: InstalledRuntimeWidget, files: FileList) {
+        const widgetFile = files && files.item(0);
+        if (!widgetFile) {
+            return;
+        }
+        try {
+            this.busy = true;
+
+            let currentAlert: Alert = {
+                text: "Uploading widget...",
+                type: "info"
+            }
+            this.alertService.add(currentAlert);
+
+            await this.widgetInstallerService.updateWidgetBinary(widget.contextPath, widgetFile, (msg, type) => {
+                this.alertService.remove(currentAlert);
+                currentAlert = {
+                    text: msg,
+                    type: (type ?  type: "info")
+                }
+                this.alertService.add(currentAlert);
+            });
+
+            // Give cumulocity a chance to load the file
+            await new Promise<void>((resolve => setTimeout(() => resolve(), 5000)));
+
+            await this.widgetLoaderService.reloadWidget(widget.contextPath);
+
+            this.alertService.remove(currentAlert);
+            this.alertService.success(`Widget: ${this.name(widget)}, updated`);
+        } catch(e) {
+            this.alertService.danger("Failed to update widget!", e.message);
+            console.error(e);
+        } finally {
+            this.busy = false;
+        }
+        await this.refresh();
+    }
+}
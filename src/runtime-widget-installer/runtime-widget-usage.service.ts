@@ -0,0 +1,144 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Injectable, Injector} from "@angular/core";
+import {IManagedObject, InventoryService} from "@c8y/client";
+import {RuntimeContextRepository} from "../runtime-widget-loader/runtime-context-repository";
+import {RuntimeWidgetLoaderService} from "../runtime-widget-loader/runtime-widget-loader.service";
+
+const DASHBOARD_PAGE_SIZE = 2000;
+
+// Device and group dashboards have a fragment naming what they belong to, eg. c8y_Dashboard!device_1234 or c8y_Dashboard!group_5678
+const DASHBOARD_OWNER_FRAGMENT = /^c8y_Dashboard!(?:device|group)_(.+)$/;
+
+/**
+ * A dashboard that uses one or more of a widget package's widgets
+ */
+export interface RuntimeWidgetDashboardReference {
+    id: string;
+    name?: string;
+    // The devices and groups that the dashboard belongs to, empty for dashboards that don't belong to one (eg. application dashboards)
+    devices: {id: string, name?: string}[];
+    // The package's widgets used on the dashboard
+    widgetIds: string[];
+    // How many of the dashboard's tiles show one of the package's widgets
+    tiles: number;
+}
+
+export interface RuntimeWidgetUsage {
+    contextPath: string;
+    // The widgets that the package provides
+    widgetIds: string[];
+    // False if the package's widgets aren't known (it isn't loaded, and they weren't recorded when it was installed), so its usage couldn't be checked
+    widgetIdsKnown: boolean;
+    dashboards: RuntimeWidgetDashboardReference[];
+}
+
+/**
+ * Finds the dashboards that use runtime widgets, so that a widget isn't removed while it is still in use
+ */
+@Injectable({providedIn: 'root'})
+export class RuntimeWidgetUsageService {
+    private invService: InventoryService;
+
+    constructor(private injector: Injector) {
+        // Don't seem to be able to inject this normally - results in an import from @c8y/client/lib/src/core, I think this is an angular/typescript compiler bug
+        this.invService = injector.get(InventoryService);
+    }
+
+    /**
+     * Scans every dashboard in the tenant for the widgets provided by each widget package
+     * @param contextPaths The context paths of the widget packages to check
+     */
+    async getWidgetUsage(contextPaths: string[]): Promise<RuntimeWidgetUsage[]> {
+        const widgetIdsByContextPath = await this.findWidgetIds(contextPaths);
+        const dashboards = await this.listDashboards();
+
+        return contextPaths.map(contextPath => {
+            const widgetIds = widgetIdsByContextPath.get(contextPath) || [];
+            return {
+                contextPath,
+                widgetIds,
+                widgetIdsKnown: widgetIds.length > 0,
+                dashboards: dashboards
+                    .map(dashboard => dashboardReference(dashboard, widgetIds))
+                    .filter(reference => reference.tiles > 0)
+            };
+        });
+    }
+
+    /**
+     * The widget ids provided by each widget package: from the widgets loaded into this application, and the widget index recorded in every runtime context
+     */
+    private async findWidgetIds(contextPaths: string[]): Promise<Map<string, string[]>> {
+        const widgetIds = new Map<string, Set<string>>(contextPaths.map(contextPath => [contextPath, new Set<string>()] as [string, Set<string>]));
+        const add = (contextPath: string, id: string) => {
+            if (widgetIds.has(contextPath)) {
+                widgetIds.get(contextPath).add(id);
+            }
+        };
+
+        const widgetLoaderService = this.injector.get(RuntimeWidgetLoaderService);
+        for (const contextPath of contextPaths) {
+            widgetLoaderService.getWidgetDefinitions(contextPath).forEach(widget => add(contextPath, widget.id));
+        }
+        widgetLoaderService.loadReport$.value.forEach(entry => entry.widgetIds.forEach(id => add(entry.contextPath, id)));
+
+        const runtimeContexts = await this.injector.get(RuntimeContextRepository).list();
+        runtimeContexts.forEach(runtimeContext =>
+            (runtimeContext.widgetIndex || []).forEach(entry => add(entry.contextPath, entry.id))
+        );
+
+        return new Map(Array.from(widgetIds.entries()).map(([contextPath, ids]) => [contextPath, Array.from(ids)] as [string, string[]]));
+    }
+
+    private async listDashboards(): Promise<IManagedObject[]> {
+        const dashboards: IManagedObject[] = [];
+        for (let currentPage = 1; ; currentPage++) {
+            const {data} = await this.invService.list({fragmentType: 'c8y_Dashboard', withParents: true, pageSize: DASHBOARD_PAGE_SIZE, currentPage});
+            dashboards.push(...data);
+            if (data.length < DASHBOARD_PAGE_SIZE) {
+                return dashboards;
+            }
+        }
+    }
+}
+
+function dashboardReference(dashboard: IManagedObject, widgetIds: string[]): RuntimeWidgetDashboardReference {
+    const children: {componentId?: string}[] = Object.keys((dashboard.c8y_Dashboard && dashboard.c8y_Dashboard.children) || {})
+        .map(key => dashboard.c8y_Dashboard.children[key]);
+    const usedChildren = children.filter(child => child && widgetIds.includes(child.componentId));
+
+    // The device or group that the dashboard was added to, and the device (or group) types it was created for
+    const devices = new Map<string, {id: string, name?: string}>();
+    ((dashboard.additionParents && dashboard.additionParents.references) || [])
+        .map(reference => reference.managedObject)
+        .forEach(managedObject => devices.set(String(managedObject.id), {id: String(managedObject.id), ...managedObject.name && {name: managedObject.name}}));
+    Object.keys(dashboard)
+        .map(fragment => DASHBOARD_OWNER_FRAGMENT.exec(fragment))
+        .filter(match => match !== null && !devices.has(match[1]))
+        .forEach(match => devices.set(match[1], {id: match[1]}));
+
+    return {
+        id: String(dashboard.id),
+        ...dashboard.c8y_Dashboard && dashboard.c8y_Dashboard.name && {name: dashboard.c8y_Dashboard.name},
+        devices: Array.from(devices.values()),
+        widgetIds: Array.from(new Set(usedChildren.map(child => child.componentId))),
+        tiles: usedChildren.length
+    };
+}
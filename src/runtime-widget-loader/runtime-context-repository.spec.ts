@@ -0,0 +1,168 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {ApplicationService, InventoryService} from "@c8y/client";
+import {APP_RUNTIME_CONTEXT_TYPE, RuntimeContextRepository} from "./runtime-context-repository";
+
+/**
+ * An inventory that keeps its managed objects in memory, updates are merged fragment by fragment (null removes a fragment) as they are by Cumulocity
+ */
+class FakeInventory {
+    objects: any[] = [];
+    updates: any[] = [];
+    // Called before an update is applied, to make a concurrent change
+    beforeUpdate?: () => Promise<void>;
+    private nextId = 1;
+
+    async list({query}: {query: string}) {
+        const type = /type eq '([^']*)'/.exec(query)[1];
+        const appId = /appId eq '([^']*)'/.exec(query);
+        return {data: clone(this.objects.filter(object => object.type === type && (!appId || object.appId === appId[1])))};
+    }
+
+    async create(object: any) {
+        this.objects.push({...clone(object), id: String(this.nextId++)});
+    }
+
+    async update(update: any) {
+        this.updates.push(clone(update));
+        if (this.beforeUpdate) {
+            const beforeUpdate = this.beforeUpdate;
+            this.beforeUpdate = undefined;
+            await beforeUpdate();
+        }
+        const object = this.objects.find(existing => existing.id === update.id);
+        Object.keys(update).forEach(key => update[key] === null ? delete object[key] : object[key] = clone(update[key]));
+    }
+
+    async delete(id: string) {
+        this.objects = this.objects.filter(object => object.id !== id);
+    }
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+describe('RuntimeContextRepository', () => {
+    let inventory: FakeInventory;
+    let apps: any[];
+    let repository: RuntimeContextRepository;
+
+    const addWidget = (contextPath: string) => (runtimeContext: any) => ({
+        widgetContextPaths: Array.from(new Set([...runtimeContext.widgetContextPaths || [], contextPath]))
+    });
+    const removeWidget = (contextPath: string) => (runtimeContext: any) => ({
+        widgetContextPaths: (runtimeContext.widgetContextPaths || []).filter((widgetContextPath: string) => widgetContextPath !== contextPath)
+    });
+
+    beforeEach(() => {
+        inventory = new FakeInventory();
+        apps = [];
+        const appService = {
+            detail: async (id: string) => ({data: clone(apps.find(app => app.id === id))}),
+            update: async (update: any) => Object.assign(apps.find(app => app.id === update.id), clone(update))
+        };
+        repository = new RuntimeContextRepository({
+            get: (token: any) => token === InventoryService ? inventory : token === ApplicationService ? appService : undefined
+        } as any);
+    });
+
+    it('stores each widget in its own fragment, with the widgetContextPaths list in sync', async () => {
+        await repository.update('1', addWidget('chart'));
+        await repository.update('1', addWidget('map'));
+
+        const [stored] = inventory.objects;
+        expect(stored.type).toBe(APP_RUNTIME_CONTEXT_TYPE);
+        expect(stored.widgetContextPaths).toEqual(['chart', 'map']);
+        expect(stored.runtimeWidget_chart).toEqual({contextPath: 'chart', installed: true, widgetIndex: null, excluded: null});
+        expect(stored.runtimeWidget_map).toEqual({contextPath: 'map', installed: true, widgetIndex: null, excluded: null});
+        // Only the map widget's fragment (and the list) were written
+        expect(Object.keys(inventory.updates[0]).sort()).toEqual(['id', 'runtimeWidget_map', 'widgetContextPaths']);
+    });
+
+    it('doesn\'t write anything if the change is already stored', async () => {
+        await repository.update('1', addWidget('chart'));
+        await repository.update('1', addWidget('chart'));
+        expect(inventory.updates).toEqual([]);
+    });
+
+    it('keeps both widgets when two are installed at the same time', async () => {
+        await repository.update('1', addWidget('chart'));
+        // The map widget is installed after the table widget's update has read the runtime context, but before it is written
+        inventory.beforeUpdate = () => repository.update('1', addWidget('map')).then(() => undefined);
+        await repository.update('1', addWidget('table'));
+
+        const view = await repository.find('1');
+        expect(view.widgetContextPaths.sort()).toEqual(['chart', 'map', 'table']);
+        expect(inventory.objects[0].widgetContextPaths.sort()).toEqual(['chart', 'map', 'table']);
+    });
+
+    it('gives up if the runtime context keeps being changed', async () => {
+        await repository.update('1', addWidget('chart'));
+        // Someone else keeps removing the widget
+        inventory.update = async update => {
+            const object = inventory.objects.find(existing => existing.id === update.id);
+            delete object.runtimeWidget_map;
+            object.widgetContextPaths = ['chart'];
+        };
+        await expectAsync(repository.update('1', addWidget('map'))).toBeRejectedWithError(/being changed by someone else/);
+    });
+
+    it('folds duplicate runtime contexts into the oldest', async () => {
+        await inventory.create({type: APP_RUNTIME_CONTEXT_TYPE, appId: '1', widgetContextPaths: ['chart']});
+        await inventory.create({type: APP_RUNTIME_CONTEXT_TYPE, appId: '1', widgetContextPaths: ['map']});
+        await repository.update('1', addWidget('table'));
+
+        expect(inventory.objects.length).toBe(1);
+        expect(inventory.objects[0].widgetContextPaths.sort()).toEqual(['chart', 'map', 'table']);
+    });
+
+    it('moves legacy widgetIndex lists into fragments', async () => {
+        await inventory.create({type: APP_RUNTIME_CONTEXT_TYPE, appId: '1', widgetContextPaths: ['chart'], widgetIndex: [{id: 'chart-widget', contextPath: 'chart'}]});
+        await repository.update('1', addWidget('map'));
+
+        const [stored] = inventory.objects;
+        expect(stored.widgetIndex).toBeUndefined();
+        expect(stored.runtimeWidget_chart.widgetIndex).toEqual([{id: 'chart-widget', contextPath: 'chart'}]);
+        expect((await repository.find('1')).widgetIndex).toEqual([{id: 'chart-widget', contextPath: 'chart'}]);
+    });
+
+    describe('migrateLegacyWidgets', () => {
+        it('copies the application\'s widgets once, leaving the application\'s list alone', async () => {
+            apps.push({id: '1', contextPath: 'dashboard', widgetContextPaths: ['chart']});
+            expect(await repository.migrateLegacyWidgets(apps[0])).toBe(true);
+            expect((await repository.find('1')).widgetContextPaths).toEqual(['chart']);
+            expect(apps[0].widgetContextPaths).toEqual(['chart']);
+
+            // A widget removed from the runtime context isn't copied back
+            await repository.update('1', removeWidget('chart'));
+            expect(await repository.migrateLegacyWidgets(apps[0])).toBe(false);
+            expect((await repository.find('1')).widgetContextPaths).toEqual([]);
+        });
+    });
+
+    describe('removeLegacyWidget', () => {
+        it('removes the widget from the application\'s list', async () => {
+            apps.push({id: '1', contextPath: 'dashboard', widgetContextPaths: ['chart', 'map']});
+            expect(await repository.removeLegacyWidget('1', 'chart')).toBe(true);
+            expect(apps[0].widgetContextPaths).toEqual(['map']);
+            expect(await repository.removeLegacyWidget('1', 'chart')).toBe(false);
+        });
+    });
+});
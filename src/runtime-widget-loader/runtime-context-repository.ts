@@ -0,0 +1,325 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Injectable, Injector} from "@angular/core";
+import {ApplicationService, IApplication, InventoryService} from "@c8y/client";
+import {RuntimeWidgetIndexEntry} from "./runtime-widget-index";
+
+export const APP_RUNTIME_CONTEXT_TYPE = 'app_runtimeContext';
+// The inventory object listing the widgets that are loaded into every application in the tenant
+export const GLOBAL_RUNTIME_CONTEXT_TYPE = 'tenant_runtimeContext';
+
+const PAGE_SIZE = 2000;
+// How many times an update re-reads the runtime context to check that its change was kept, before giving up
+const MAX_UPDATE_ATTEMPTS = 5;
+// Each widget's entry in a runtime context is kept in its own fragment, named with this prefix and the widget's (encoded) context path
+const WIDGET_FRAGMENT_PREFIX = 'runtimeWidget_';
+
+/**
+ * The widgets installed into an application (type: app_runtimeContext), or into every application (type: tenant_runtimeContext)
+ * This is a view of the runtime context, it is stored as a fragment per widget (see RuntimeWidgetFragment)
+ */
+export interface IAppRuntimeContext {
+    id?: any;
+    widgetContextPaths?: any;
+    widgetIndex?: RuntimeWidgetIndexEntry[];
+    // Tenant-wide widgets that the application doesn't load
+    excludedGlobalWidgets?: string[];
+    type?: string;
+    appId?: string;
+    // Set once the widgets listed in the application's own widgetContextPaths have been copied into the runtime context
+    legacyWidgetsMigrated?: boolean;
+}
+
+/**
+ * One widget's entry in a runtime context
+ * Every widget has its own fragment so that an update only writes the fragments of the widgets it changes, and the inventory merges it with updates to other widgets rather than replacing them
+ * The widgetContextPaths list is kept in sync with the fragments, older versions of the loader only read the list
+ * Runtime contexts written during the move to fragments may also have widgetIndex and excludedGlobalWidgets lists, these are moved into fragments the next time the runtime context is updated
+ */
+interface RuntimeWidgetFragment {
+    contextPath: string;
+    // Null rather than undefined, so that a field that is no longer set is removed
+    installed: true | null;
+    widgetIndex: RuntimeWidgetIndexEntry[] | null;
+    excluded: true | null;
+}
+
+/**
+ * Works out the fields to change from the current runtime context, it must not have side effects
+ */
+export type RuntimeContextChange = (runtimeContext: IAppRuntimeContext) => Partial<IAppRuntimeContext>;
+
+/**
+ * Reads and writes the runtime contexts, the inventory objects that list the widgets installed into each application
+ */
+@Injectable({providedIn: 'root'})
+export class RuntimeContextRepository {
+    private invService: InventoryService;
+    private appService: ApplicationService;
+
+    constructor(injector: Injector) {
+        // Don't seem to be able to inject these normally - results in an import from @c8y/client/lib/src/core, I think this is an angular/typescript compiler bug
+        this.invService = injector.get(InventoryService);
+        this.appService = injector.get(ApplicationService);
+    }
+
+    /**
+     * Finds an application's runtime context, or the tenant-wide runtime context if no appId is given
+     * @returns undefined if the application doesn't have one yet
+     */
+    async find(appId: string | undefined): Promise<IAppRuntimeContext | undefined> {
+        return mergeDuplicates((await this.findAll(appId)).map(toView));
+    }
+
+    /**
+     * Every application's runtime context, and the tenant-wide runtime context (if there is one)
+     */
+    async list(): Promise<IAppRuntimeContext[]> {
+        const appRuntimeContexts = (await this.query(`$filter=(type eq '${APP_RUNTIME_CONTEXT_TYPE}') $orderby=creationTime asc`)).map(toView);
+        const appIds = Array.from(new Set(appRuntimeContexts.map(runtimeContext => runtimeContext.appId)));
+        const globalRuntimeContext = await this.find(undefined);
+        return [
+            ...appIds.map(appId => mergeDuplicates(appRuntimeContexts.filter(runtimeContext => runtimeContext.appId === appId))),
+            ...globalRuntimeContext ? [globalRuntimeContext] : []
+        ];
+    }
+
+    /**
+     * Changes an application's runtime context (or the tenant-wide runtime context if no appId is given), creating it if it doesn't exist
+     * Only the fragments of the widgets whose entries change are written, along with the widgetContextPaths list if it changes
+     * The list is replaced as a whole, and two updates can change the same widget at the same time, so the runtime context is read again after it is written and the change is applied again until there is nothing left to write
+     * @param appId
+     * @param change Applied to the runtime context each time it is read, so it must give the same result when applied again
+     * @returns The updated runtime context
+     */
+    async update(appId: string | undefined, change: RuntimeContextChange): Promise<IAppRuntimeContext> {
+        for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+            const duplicates = await this.findAll(appId);
+            const current = mergeDuplicates(duplicates.map(toView));
+            const changed = {...current || {}, ...change(clone(current || {}))};
+
+            if (!current) {
+                await this.invService.create({
+                    ...appId !== undefined ? {type: APP_RUNTIME_CONTEXT_TYPE, appId} : {type: GLOBAL_RUNTIME_CONTEXT_TYPE},
+                    ...toStored(changed, {}),
+                    c8y_Global: {}
+                });
+                continue;
+            }
+
+            // Two runtime contexts are created if two admins install the first widget into an application at the same time, fold the newer ones into the oldest
+            const [oldest, ...newer] = duplicates;
+            const changes = toStored(changed, oldest);
+            if (newer.length === 0 && Object.keys(changes).length === 0) {
+                return current;
+            }
+            await this.invService.update({id: oldest.id, ...changes});
+            for (const duplicate of newer) {
+                try {
+                    await this.invService.delete(duplicate.id);
+                } catch (e) {
+                    // Another update may have folded it in already
+                    console.warn(`Unable to delete duplicate runtime context: ${duplicate.id}\n`, e);
+                }
+            }
+        }
+        throw Error('Unable to update the runtime context, it is being changed by someone else. Try again');
+    }
+
+    /**
+     * Copies the widgets listed in an application's widgetContextPaths (how widgets were installed before the app_runtimeContext) into its runtime context
+     * The application's list is left alone, as older versions of the loader still read it. The widgets are only copied once, so a widget that is later removed from the runtime context isn't copied back
+     * @returns Whether any widgets were copied
+     */
+    async migrateLegacyWidgets(app: IApplication & {widgetContextPaths?: string[]}): Promise<boolean> {
+        const legacyContextPaths = (app.widgetContextPaths || []).filter(contextPath => contextPath && contextPath.length > 0);
+        if (legacyContextPaths.length === 0) {
+            return false;
+        }
+        const runtimeContext = await this.find(String(app.id));
+        if (runtimeContext && runtimeContext.legacyWidgetsMigrated) {
+            return false;
+        }
+        await this.update(String(app.id), runtimeContext => ({
+            widgetContextPaths: union(runtimeContext.widgetContextPaths, legacyContextPaths),
+            legacyWidgetsMigrated: true
+        }));
+        return true;
+    }
+
+    /**
+     * Removes a widget from an application's own widgetContextPaths (how widgets were installed before the app_runtimeContext)
+     * @returns Whether the application listed the widget
+     * @throws If the application lists the widget but can't be changed, subscribed applications can only be changed by the tenant that owns them
+     */
+    async removeLegacyWidget(appId: string, contextPath: string): Promise<boolean> {
+        const app: IApplication & {widgetContextPaths?: string[]} = (await this.appService.detail(appId)).data;
+        if (!(app.widgetContextPaths || []).includes(contextPath)) {
+            return false;
+        }
+        try {
+            await this.appService.update({
+                id: app.id,
+                widgetContextPaths: app.widgetContextPaths.filter(widgetContextPath => widgetContextPath !== contextPath)
+            } as any);
+        } catch (e) {
+            console.error(`Unable to remove widget: ${contextPath}, from the widgetContextPaths of application: ${app.contextPath}\n`, e);
+            throw Error(`Widget: ${contextPath}, is listed in the application: ${app.contextPath}, itself and the application can't be changed. If the application is subscribed, remove the widget in the tenant that owns it`);
+        }
+        return true;
+    }
+
+    private findAll(appId: string | undefined): Promise<IAppRuntimeContext[]> {
+        return appId !== undefined ?
+            this.query(`$filter=(type eq '${APP_RUNTIME_CONTEXT_TYPE}' and appId eq '${String(appId).replace(/'/g, "''")}') $orderby=creationTime asc`) :
+            this.query(`$filter=(type eq '${GLOBAL_RUNTIME_CONTEXT_TYPE}') $orderby=creationTime asc`);
+    }
+
+    private async query(query: string): Promise<IAppRuntimeContext[]> {
+        const runtimeContexts: IAppRuntimeContext[] = [];
+        for (let currentPage = 1; ; currentPage++) {
+            const {data} = await this.invService.list({query, pageSize: PAGE_SIZE, currentPage});
+            runtimeContexts.push(...data);
+            if (data.length < PAGE_SIZE) {
+                return runtimeContexts;
+            }
+        }
+    }
+}
+
+function mergeDuplicates(runtimeContexts: IAppRuntimeContext[]): IAppRuntimeContext | undefined {
+    if (runtimeContexts.length === 0) {
+        return undefined;
+    }
+    const [oldest, ...newer] = runtimeContexts;
+    return newer.reduce((merged, duplicate) => ({
+        ...merged,
+        widgetContextPaths: union(merged.widgetContextPaths, duplicate.widgetContextPaths),
+        widgetIndex: [
+            ...merged.widgetIndex || [],
+            ...(duplicate.widgetIndex || []).filter(entry => !(merged.widgetIndex || []).some(existing => existing.contextPath === entry.contextPath && existing.id === entry.id))
+        ],
+        excludedGlobalWidgets: union(merged.excludedGlobalWidgets, duplicate.excludedGlobalWidgets),
+        ...(merged.legacyWidgetsMigrated || duplicate.legacyWidgetsMigrated) && {legacyWidgetsMigrated: true}
+    }), oldest);
+}
+
+/**
+ * Reads a stored runtime context's widget fragments (and any legacy lists) into a view
+ */
+function toView(stored: any): IAppRuntimeContext {
+    const fragments: RuntimeWidgetFragment[] = Object.keys(stored)
+        .filter(key => key.startsWith(WIDGET_FRAGMENT_PREFIX) && stored[key] && typeof stored[key].contextPath === 'string')
+        .map(key => stored[key]);
+    const fragmentContextPaths = fragments.map(fragment => fragment.contextPath);
+    return {
+        id: stored.id,
+        type: stored.type,
+        ...stored.appId !== undefined && {appId: stored.appId},
+        widgetContextPaths: union(stored.widgetContextPaths, fragments.filter(fragment => fragment.installed).map(fragment => fragment.contextPath)),
+        widgetIndex: [
+            ...(stored.widgetIndex || []).filter((entry: RuntimeWidgetIndexEntry) => !fragmentContextPaths.includes(entry.contextPath)),
+            ...fragments.reduce((entries, fragment) => entries.concat(fragment.widgetIndex || []), [] as RuntimeWidgetIndexEntry[])
+        ],
+        excludedGlobalWidgets: union(stored.excludedGlobalWidgets, fragments.filter(fragment => fragment.excluded).map(fragment => fragment.contextPath)),
+        ...stored.legacyWidgetsMigrated && {legacyWidgetsMigrated: true}
+    };
+}
+
+/**
+ * The fields to write so that a stored runtime context matches a view, empty if it already does
+ */
+function toStored(view: IAppRuntimeContext, stored: any): {[field: string]: any} {
+    const widgetContextPaths: string[] = view.widgetContextPaths || [];
+    return {
+        ...toFragments(view, stored),
+        ...!sameContextPaths(stored.widgetContextPaths, widgetContextPaths) && {widgetContextPaths},
+        // These lists are folded into the fragments
+        ...Array.isArray(stored.widgetIndex) && {widgetIndex: null},
+        ...Array.isArray(stored.excludedGlobalWidgets) && {excludedGlobalWidgets: null},
+        ...view.legacyWidgetsMigrated && !stored.legacyWidgetsMigrated && {legacyWidgetsMigrated: true}
+    };
+}
+
+/**
+ * The fragments to write so that a stored runtime context matches a view, only those that differ from the stored fragments
+ * A widget that no longer has an entry has its fragment set to null, which removes it
+ */
+function toFragments(view: IAppRuntimeContext, stored: any): {[fragment: string]: RuntimeWidgetFragment | null} {
+    const widgetContextPaths: string[] = view.widgetContextPaths || [];
+    const widgetIndex = view.widgetIndex || [];
+    const excludedGlobalWidgets = view.excludedGlobalWidgets || [];
+    const storedContextPaths = Object.keys(stored)
+        .filter(key => key.startsWith(WIDGET_FRAGMENT_PREFIX) && stored[key] && typeof stored[key].contextPath === 'string')
+        .map(key => stored[key].contextPath);
+    const contextPaths = union(union(widgetContextPaths, widgetIndex.map(entry => entry.contextPath)), union(excludedGlobalWidgets, storedContextPaths));
+
+    const fragments: {[fragment: string]: RuntimeWidgetFragment | null} = {};
+    for (const contextPath of contextPaths) {
+        const entries = widgetIndex.filter(entry => entry.contextPath === contextPath);
+        const fragment: RuntimeWidgetFragment | null = widgetContextPaths.includes(contextPath) || entries.length > 0 || excludedGlobalWidgets.includes(contextPath) ? {
+            contextPath,
+            installed: widgetContextPaths.includes(contextPath) || null,
+            widgetIndex: entries.length > 0 ? entries : null,
+            excluded: excludedGlobalWidgets.includes(contextPath) || null
+        } : null;
+        const name = fragmentName(contextPath);
+        if (sortedJson(fragment) !== sortedJson(normalizeFragment(stored[name]))) {
+            fragments[name] = fragment;
+        }
+    }
+    return fragments;
+}
+
+// Fragment names can't contain every character that a context path can, so anything other than letters, digits and - is escaped
+function fragmentName(contextPath: string): string {
+    return WIDGET_FRAGMENT_PREFIX + contextPath.replace(/[^A-Za-z0-9-]/g, character => `_${character.charCodeAt(0).toString(16)}_`);
+}
+
+function normalizeFragment(fragment: any): RuntimeWidgetFragment | null {
+    if (!fragment || typeof fragment.contextPath !== 'string') {
+        return null;
+    }
+    return {
+        contextPath: fragment.contextPath,
+        installed: fragment.installed ? true : null,
+        widgetIndex: Array.isArray(fragment.widgetIndex) && fragment.widgetIndex.length > 0 ? fragment.widgetIndex : null,
+        excluded: fragment.excluded ? true : null
+    };
+}
+
+// JSON with the keys of objects sorted, the inventory doesn't have to keep the order that fields were written in
+function sortedJson(value: any): string {
+    return JSON.stringify(value, (key, fieldValue) => fieldValue && typeof fieldValue === 'object' && !Array.isArray(fieldValue) ?
+        Object.keys(fieldValue).sort().reduce((sorted, fieldKey) => ({...sorted, [fieldKey]: fieldValue[fieldKey]}), {}) :
+        fieldValue
+    );
+}
+
+function sameContextPaths(a: string[] | undefined, b: string[] | undefined): boolean {
+    return JSON.stringify(union(a, []).sort()) === JSON.stringify(union(b, []).sort());
+}
+
+function union(a: string[] | undefined, b: string[] | undefined): string[] {
+    return Array.from(new Set([...a || [], ...b || []]));
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,111 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Component, ComponentRef, DoCheck, NgModule, OnDestroy, ViewChild, ViewContainerRef} from "@angular/core";
+import {CommonModule} from "@c8y/ngx-components";
+
+/**
+ * Renders a runtime widget, catching any error that the widget throws so that it can't break the rest of the dashboard
+ * The widget is detached from the dashboard's change detection, this component runs it instead so that its errors can be caught
+ */
+@Component({
+    selector: 'c8y-runtime-widget-boundary',
+    template: `
+        <ng-container #widgetContainer></ng-container>
+        <div class="text-center" style="padding: 16px;" *ngIf="error">
+            <div style="font-size: 36px;" class="text-danger">
+                <i c8yIcon="exclamation-triangle"></i>
+            </div>
+            <p><b>Widget error</b></p>
+            <p class="text-muted">{{widgetId}}</p>
+            <p class="text-danger small" style="white-space: pre-line;">{{error.message || error}}</p>
+            <button class="btn btn-default btn-sm" (click)="retry()">
+                <i c8yIcon="refresh"></i> Retry
+            </button>
+        </div>
+    `
+})
+export class RuntimeWidgetBoundaryComponent implements DoCheck, OnDestroy {
+    @ViewChild('widgetContainer', {read: ViewContainerRef, static: true}) widgetContainer: ViewContainerRef;
+    widgetId: string;
+    contextPath?: string;
+    error?: any;
+
+    // Set by the RuntimeWidgetLoaderService before start is called
+    createWidget: (viewContainer: ViewContainerRef) => ComponentRef<any>;
+    onError: (error: any) => void = () => {};
+    onDestroy: () => void = () => {};
+
+    private widgetRef?: ComponentRef<any>;
+
+    start() {
+        this.error = undefined;
+        try {
+            this.widgetRef = this.createWidget(this.widgetContainer);
+            this.widgetRef.changeDetectorRef.detach();
+            this.widgetRef.changeDetectorRef.detectChanges();
+        } catch (e) {
+            this.fail(e);
+        }
+    }
+
+    ngDoCheck() {
+        if (!this.widgetRef) {
+            return;
+        }
+        try {
+            this.widgetRef.changeDetectorRef.detectChanges();
+        } catch (e) {
+            this.fail(e);
+        }
+    }
+
+    /**
+     * Destroys the widget and shows the error in its place
+     */
+    fail(error: any) {
+        const widgetRef = this.widgetRef;
+        this.widgetRef = undefined;
+        if (widgetRef) {
+            try {
+                widgetRef.destroy();
+            } catch (e) {
+                console.error(`Failed to destroy runtime widget: ${this.widgetId}\n`, e);
+            }
+        }
+        this.error = error;
+        this.onError(error);
+    }
+
+    retry() {
+        this.widgetContainer.clear();
+        this.start();
+    }
+
+    ngOnDestroy() {
+        this.onDestroy();
+    }
+}
+
+// Compiled at runtime by the RuntimeWidgetLoaderService, so that apps don't need to import anything extra
+@NgModule({
+    declarations: [RuntimeWidgetBoundaryComponent],
+    imports: [CommonModule],
+    entryComponents: [RuntimeWidgetBoundaryComponent]
+})
+export class RuntimeWidgetBoundaryModule {}
@@ -0,0 +1,167 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Injectable} from "@angular/core";
+
+/**
+ * A widget's importManifest and chunk files, as downloaded for one version of the widget's hosted application
+ */
+export interface RuntimeWidgetBundle {
+    // `${appId}:${activeVersionId}`
+    key: string;
+    appId: string;
+    activeVersionId: string;
+    contextPath: string;
+    // The widget's window.entryManifest entry, a mapping from chunk name to the chunk's original path
+    manifest: {[chunkName: string]: {path: string}};
+    // The content of each chunk, keyed by chunk name
+    files: {[chunkName: string]: ArrayBuffer};
+    cached: number;
+}
+
+const DB_NAME = 'runtime-widget-cache';
+const DB_VERSION = 1;
+const BUNDLE_STORE = 'bundles';
+// Responses needed to start loading (the app list, the app_runtimeContext), so that widgets can be loaded while offline
+const REGISTRY_STORE = 'registry';
+
+/**
+ * Caches widget bundles in IndexedDB, so that unchanged widgets don't need to be downloaded on every start-up
+ * Every method fails soft: if IndexedDB is unavailable (eg. private browsing) then nothing is cached
+ */
+@Injectable({providedIn: 'root'})
+export class RuntimeWidgetCacheService {
+    private db?: Promise<IDBDatabase | undefined>;
+
+    static bundleKey(appId: string | number, activeVersionId: string | number): string {
+        return `${appId}:${activeVersionId}`;
+    }
+
+    async getBundle(key: string): Promise<RuntimeWidgetBundle | undefined> {
+        return this.get<RuntimeWidgetBundle>(BUNDLE_STORE, key);
+    }
+
+    async putBundle(bundle: RuntimeWidgetBundle) {
+        await this.put(BUNDLE_STORE, bundle.key, bundle);
+    }
+
+    /**
+     * Deletes the cached bundles of older versions of the given widget apps
+     * @param currentKeys The bundle key of the active version of each widget app
+     */
+    async pruneBundles(currentKeys: string[]) {
+        const appIds = currentKeys.map(key => key.split(':')[0]);
+        const db = await this.open();
+        if (!db) {
+            return;
+        }
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction(BUNDLE_STORE, 'readwrite');
+            const request = transaction.objectStore(BUNDLE_STORE).openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) {
+                    return;
+                }
+                // Bundles of widget apps that aren't in this application are left alone, another application may use them
+                const bundle = cursor.value as RuntimeWidgetBundle;
+                if (appIds.includes(bundle.appId) && !currentKeys.includes(bundle.key)) {
+                    cursor.delete();
+                }
+                cursor.continue();
+            };
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        }).catch(e => console.warn('Failed to prune the runtime widget cache\n', e));
+    }
+
+    async getRegistryEntry<T>(key: string): Promise<T | undefined> {
+        return this.get<T>(REGISTRY_STORE, key);
+    }
+
+    async putRegistryEntry(key: string, value: any) {
+        await this.put(REGISTRY_STORE, key, value);
+    }
+
+    /**
+     * Deletes everything in the cache
+     */
+    async clear() {
+        const db = await this.open();
+        if (!db) {
+            return;
+        }
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction([BUNDLE_STORE, REGISTRY_STORE], 'readwrite');
+            transaction.objectStore(BUNDLE_STORE).clear();
+            transaction.objectStore(REGISTRY_STORE).clear();
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+
+    private async get<T>(storeName: string, key: string): Promise<T | undefined> {
+        const db = await this.open();
+        if (!db) {
+            return undefined;
+        }
+        return new Promise<T | undefined>((resolve, reject) => {
+            const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch(e => {
+            console.warn(`Failed to read: ${key}, from the runtime widget cache\n`, e);
+            return undefined;
+        });
+    }
+
+    private async put(storeName: string, key: string, value: any) {
+        const db = await this.open();
+        if (!db) {
+            return;
+        }
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction(storeName, 'readwrite');
+            transaction.objectStore(storeName).put(value, key);
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        }).catch(e => console.warn(`Failed to write: ${key}, to the runtime widget cache\n`, e));
+    }
+
+    private open(): Promise<IDBDatabase | undefined> {
+        if (!this.db) {
+            this.db = new Promise<IDBDatabase | undefined>(resolve => {
+                if (typeof indexedDB === 'undefined') {
+                    resolve(undefined);
+                    return;
+                }
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(BUNDLE_STORE);
+                    request.result.createObjectStore(REGISTRY_STORE);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    console.warn('Runtime widget cache is unavailable\n', request.error);
+                    resolve(undefined);
+                };
+            });
+        }
+        return this.db;
+    }
+}
@@ -0,0 +1,93 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {compatibilityProblems, satisfiesRange, sortByRequiredWidgets} from "./runtime-widget-compatibility";
+
+describe('compatibilityProblems', () => {
+    const hostVersions = (c8yVersion: string | undefined) => ({
+        "@angular/core": "8.2.13",
+        "@c8y/ngx-components": c8yVersion
+    });
+
+    it('checks the range against the host application\'s version', () => {
+        const compatibility = {c8yNgxComponents: '>=1009.0.0 <1010.0.0'};
+        expect(compatibilityProblems(compatibility, hostVersions('1009.0.4'))).toEqual([]);
+        expect(compatibilityProblems(compatibility, hostVersions('1007.0.18'))).toEqual([
+            'Requires @c8y/ngx-components >=1009.0.0 <1010.0.0, this application uses 1007.0.18'
+        ]);
+        expect(compatibilityProblems(compatibility, hostVersions('1010.0.2'))).toEqual([
+            'Requires @c8y/ngx-components >=1009.0.0 <1010.0.0, this application uses 1010.0.2'
+        ]);
+    });
+
+    it('accepts widgets made for a host version other than 1009', () => {
+        expect(compatibilityProblems({c8yNgxComponents: '^1007.0.0'}, hostVersions('1007.6.3'))).toEqual([]);
+        expect(compatibilityProblems({c8yNgxComponents: '>=1010.0.0'}, hostVersions('1010.0.2'))).toEqual([]);
+    });
+
+    it('doesn\'t reject widgets when the host\'s version isn\'t known', () => {
+        expect(compatibilityProblems({c8yNgxComponents: '>=1010.0.0'}, hostVersions(undefined))).toEqual([]);
+    });
+
+    it('checks the Angular range', () => {
+        expect(compatibilityProblems({angular: '^9.0.0'}, hostVersions('1009.0.4'))).toEqual([
+            'Requires Angular ^9.0.0, this application uses 8.2.13'
+        ]);
+    });
+});
+
+describe('satisfiesRange', () => {
+    it('supports intersections and unions', () => {
+        expect(satisfiesRange('1009.0.4', '>=1007.0.0 <1010.0.0')).toBe(true);
+        expect(satisfiesRange('1010.0.0', '>=1007.0.0 <1010.0.0')).toBe(false);
+        expect(satisfiesRange('1006.3.0', '1006.x || >=1009.0.0')).toBe(true);
+    });
+});
+
+describe('sortByRequiredWidgets', () => {
+    it('orders widgets after the widgets they require', () => {
+        const {order, problems} = sortByRequiredWidgets(new Map([
+            ['chart-extra', ['chart']],
+            ['chart', ['common']],
+            ['common', []]
+        ]));
+        expect(order).toEqual(['common', 'chart', 'chart-extra']);
+        expect(problems.size).toBe(0);
+    });
+
+    it('reports widgets that require a widget that isn\'t installed, and the widgets that require them', () => {
+        const {order, problems} = sortByRequiredWidgets(new Map([
+            ['chart-extra', ['chart']],
+            ['chart', ['common']],
+            ['map', []]
+        ]));
+        expect(order).toEqual(['map']);
+        expect(problems.get('chart')).toBe('Requires the widget: common, which is not installed');
+        expect(problems.get('chart-extra')).toBe('Requires the widget: chart, which can\'t be loaded');
+    });
+
+    it('reports circular requirements', () => {
+        const {order, problems} = sortByRequiredWidgets(new Map([
+            ['a', ['b']],
+            ['b', ['a']]
+        ]));
+        expect(order).toEqual([]);
+        expect(problems.get('a')).toBe('Circular widget requirement involving: a');
+        expect(problems.get('b')).toBe('Requires the widget: a, which can\'t be loaded');
+    });
+});
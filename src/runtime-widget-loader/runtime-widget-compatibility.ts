@@ -0,0 +1,156 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+/**
+ * The compatibility block of a widget's cumulocity.json, e.g.
+ * "compatibility": {
+ *     "c8yNgxComponents": ">=1007.0.0 <1010.0.0",
+ *     "angular": "^8.2.0",
+ *     "requiredWidgets": ["another-widget-context-path"]
+ * }
+ */
+export interface RuntimeWidgetCompatibility {
+    c8yNgxComponents?: string;
+    angular?: string;
+    requiredWidgets?: string[];
+}
+
+/**
+ * Checks whether a version satisfies a range
+ * Supports a subset of npm's range syntax: exact versions, x wildcards, ^, ~, comparators (>, >=, <, <=, =), space separated intersections and || unions
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+    const parsedVersion = parseVersion(version);
+    if (!parsedVersion) {
+        return false;
+    }
+    return range.split('||')
+        .map(alternative => alternative.trim())
+        .some(alternative => alternative === '' || alternative === '*' || alternative.split(/\s+/).every(comparator => satisfiesComparator(parsedVersion, comparator)));
+}
+
+function parseVersion(version: string): number[] | undefined {
+    const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(version.trim());
+    if (!match) {
+        return undefined;
+    }
+    return [Number(match[1]), Number(match[2] || 0), Number(match[3] || 0)];
+}
+
+function compareVersions(a: number[], b: number[]): number {
+    for (let i = 0; i < 3; i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+    return 0;
+}
+
+function satisfiesComparator(version: number[], comparator: string): boolean {
+    const match = /^(\^|~|>=|<=|>|<|=)?\s*v?(\d+|x|\*)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?/.exec(comparator);
+    if (!match) {
+        return false;
+    }
+    const operator = match[1] || '=';
+    // The number of version parts that were given (wildcards count as not given)
+    const parts = [match[2], match[3], match[4]].filter(part => part !== undefined && part !== 'x' && part !== '*').length;
+    const target = [0, 1, 2].map(i => parts > i ? Number([match[2], match[3], match[4]][i]) : 0);
+
+    const upperBound = (index: number) => {
+        const bound = target.slice();
+        bound[index]++;
+        for (let i = index + 1; i < 3; i++) {
+            bound[i] = 0;
+        }
+        return bound;
+    };
+
+    switch (operator) {
+        case '>': return parts < 3 && parts > 0 ? compareVersions(version, upperBound(parts - 1)) >= 0 : compareVersions(version, target) > 0;
+        case '>=': return compareVersions(version, target) >= 0;
+        case '<': return compareVersions(version, target) < 0;
+        case '<=': return parts < 3 && parts > 0 ? compareVersions(version, upperBound(parts - 1)) < 0 : compareVersions(version, target) <= 0;
+        case '~': return compareVersions(version, target) >= 0 && compareVersions(version, upperBound(parts > 1 ? 1 : 0)) < 0;
+        case '^': {
+            // ^ allows changes that do not modify the left-most non-zero part
+            const index = target[0] !== 0 || parts <= 1 ? 0 : (target[1] !== 0 || parts <= 2 ? 1 : 2);
+            return compareVersions(version, target) >= 0 && compareVersions(version, upperBound(index)) < 0;
+        }
+        default: return parts === 0 || (compareVersions(version, target) >= 0 && compareVersions(version, upperBound(Math.min(parts, 3) - 1)) < 0);
+    }
+}
+
+/**
+ * Lists the reasons (if any) that a widget can't be loaded into this application
+ * @param compatibility The widget's declared compatibility
+ * @param versions The host application's versions (see hostVersions), a range can't be checked against a version that isn't known
+ */
+export function compatibilityProblems(compatibility: RuntimeWidgetCompatibility | undefined, versions: {[packageName: string]: string | undefined}): string[] {
+    const problems: string[] = [];
+    if (!compatibility) {
+        return problems;
+    }
+    const c8yVersion = versions["@c8y/ngx-components"];
+    if (compatibility.c8yNgxComponents && c8yVersion !== undefined && !satisfiesRange(c8yVersion, compatibility.c8yNgxComponents)) {
+        problems.push(`Requires @c8y/ngx-components ${compatibility.c8yNgxComponents}, this application uses ${c8yVersion}`);
+    }
+    const angularVersion = versions["@angular/core"];
+    if (compatibility.angular && angularVersion !== undefined && !satisfiesRange(angularVersion, compatibility.angular)) {
+        problems.push(`Requires Angular ${compatibility.angular}, this application uses ${angularVersion}`);
+    }
+    return problems;
+}
+
+/**
+ * Orders widgets so that every widget comes after the widgets it requires
+ * @param requiredWidgets A map from each widget's contextPath to the contextPaths of the widgets it requires
+ * @returns The widgets in load order, and the reason that any widget can't be loaded (missing or circular requirements)
+ */
+export function sortByRequiredWidgets(requiredWidgets: Map<string, string[]>): {order: string[], problems: Map<string, string>} {
+    const order: string[] = [];
+    const problems = new Map<string, string>();
+    const visited = new Set<string>();
+    const visiting = new Set<string>();
+
+    const visit = (contextPath: string): boolean => {
+        if (visited.has(contextPath)) {
+            return !problems.has(contextPath);
+        }
+        if (visiting.has(contextPath)) {
+            problems.set(contextPath, `Circular widget requirement involving: ${contextPath}`);
+            return false;
+        }
+        visiting.add(contextPath);
+        for (const required of requiredWidgets.get(contextPath) || []) {
+            if (!requiredWidgets.has(required)) {
+                problems.set(contextPath, `Requires the widget: ${required}, which is not installed`);
+            } else if (!visit(required)) {
+                problems.set(contextPath, problems.get(contextPath) || `Requires the widget: ${required}, which can't be loaded`);
+            }
+        }
+        visiting.delete(contextPath);
+        visited.add(contextPath);
+        if (!problems.has(contextPath)) {
+            order.push(contextPath);
+        }
+        return !problems.has(contextPath);
+    };
+
+    Array.from(requiredWidgets.keys()).forEach(contextPath => visit(contextPath));
+    return {order, problems};
+}
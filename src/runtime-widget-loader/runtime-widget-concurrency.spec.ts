@@ -0,0 +1,84 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {concurrencyLimit, withTimeout} from "./runtime-widget-concurrency";
+
+describe('concurrencyLimit', () => {
+    it('runs at most the given number of tasks at once, in the order they are submitted', async () => {
+        const limit = concurrencyLimit(2);
+        const started: number[] = [];
+        const finish: (() => void)[] = [];
+        let running = 0;
+        let maxRunning = 0;
+        const results = [0, 1, 2, 3].map(i => limit(() => new Promise<number>(resolve => {
+            started.push(i);
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            finish[i] = () => {
+                running--;
+                resolve(i);
+            };
+        })));
+
+        expect(started).toEqual([0, 1]);
+        finish[1]();
+        await results[1];
+        expect(started).toEqual([0, 1, 2]);
+        finish[0]();
+        finish[2]();
+        await Promise.all([results[0], results[2]]);
+        finish[3]();
+        expect(await Promise.all(results)).toEqual([0, 1, 2, 3]);
+        expect(maxRunning).toBe(2);
+    });
+
+    it('starts the next task when one fails', async () => {
+        const limit = concurrencyLimit(1);
+        const failed = limit(() => Promise.reject(Error('Failed')));
+        const next = limit(() => Promise.resolve('next'));
+        await expectAsync(failed).toBeRejectedWithError('Failed');
+        expect(await next).toBe('next');
+    });
+});
+
+describe('withTimeout', () => {
+    beforeEach(() => jasmine.clock().install());
+    afterEach(() => jasmine.clock().uninstall());
+
+    it('resolves with the result if the promise settles in time', async () => {
+        const onTimeout = jasmine.createSpy('onTimeout');
+        const result = withTimeout(Promise.resolve('loaded'), 1000, 'Timed out', onTimeout);
+        expect(await result).toBe('loaded');
+        jasmine.clock().tick(1000);
+        expect(onTimeout).not.toHaveBeenCalled();
+    });
+
+    it('rejects, and calls onTimeout, if the promise doesn\'t settle in time', async () => {
+        const onTimeout = jasmine.createSpy('onTimeout');
+        const result = withTimeout(new Promise(() => {}), 1000, 'Timed out', onTimeout);
+        jasmine.clock().tick(999);
+        expect(onTimeout).not.toHaveBeenCalled();
+        jasmine.clock().tick(1);
+        expect(onTimeout).toHaveBeenCalled();
+        await expectAsync(result).toBeRejectedWithError('Timed out');
+    });
+
+    it('passes on the promise\'s error', async () => {
+        await expectAsync(withTimeout(Promise.reject(Error('Failed')), 1000, 'Timed out')).toBeRejectedWithError('Failed');
+    });
+});
@@ -0,0 +1,65 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+/**
+ * Creates a function that runs tasks with at most `concurrency` of them in progress at once
+ * Tasks are started in the order that they are submitted
+ */
+export function concurrencyLimit(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+    let running = 0;
+    const queue: (() => void)[] = [];
+
+    const next = () => {
+        if (running < concurrency && queue.length > 0) {
+            running++;
+            queue.shift()();
+        }
+    };
+
+    return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+            task()
+                .then(resolve, reject)
+                .then(() => {
+                    running--;
+                    next();
+                });
+        });
+        next();
+    });
+}
+
+/**
+ * Rejects if the promise hasn't settled within the given time
+ * @param onTimeout Called when the time runs out, the underlying work isn't cancelled so this can be used to flag that its result should be ignored
+ */
+export function withTimeout<T>(promise: Promise<T>, timeout: number, message: string, onTimeout: () => void = () => {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            onTimeout();
+            reject(Error(message));
+        }, timeout);
+        promise.then(result => {
+            clearTimeout(timer);
+            resolve(result);
+        }, e => {
+            clearTimeout(timer);
+            reject(e);
+        });
+    });
+}
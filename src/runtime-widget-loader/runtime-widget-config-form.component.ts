@@ -0,0 +1,157 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Component, NgModule, OnDestroy, OnInit, Optional} from "@angular/core";
+import {FormControl, NgForm} from "@angular/forms";
+import {CommonModule} from "@c8y/ngx-components";
+import {applyConfigDefaults, RuntimeWidgetConfigSchema, RuntimeWidgetConfigSchemaProperty, validateConfig} from "./runtime-widget-config-schema";
+
+// The name of the control added to the dashboard's widget config form
+const CONFIG_CONTROL_NAME = 'runtimeWidgetConfig';
+
+interface ConfigField {
+    key: string;
+    property: RuntimeWidgetConfigSchemaProperty;
+    required: boolean;
+}
+
+/**
+ * A config form generated from a widget's config schema, used for widgets that declare a schema but don't have a config component
+ * Edits the config in place, as a widget's own config component would
+ * The dashboard's widget config form (an NgForm) doesn't allow the config to be saved while it is invalid, so a control that is invalid while the config is invalid is added to it
+ */
+@Component({
+    selector: 'c8y-runtime-widget-config-form',
+    template: `
+        <div class="form-group" *ngFor="let field of fields" [class.has-error]="errors[field.key]">
+            <ng-container [ngSwitch]="inputType(field.property)">
+                <label *ngSwitchCase="'checkbox'" class="c8y-checkbox">
+                    <input type="checkbox" [checked]="!!config[field.key]" (change)="setValue(field, $event.target.checked) //noinspection UnresolvedVariable">
+                    <span></span>
+                    <span>{{field.property.title || field.key}}</span>
+                </label>
+                <ng-container *ngSwitchCase="'select'">
+                    <label>{{field.property.title || field.key}}<span *ngIf="field.required"> *</span></label>
+                    <div class="c8y-select-wrapper">
+                        <select class="form-control" (change)="setOption(field, $event.target.value) //noinspection UnresolvedVariable">
+                            <option value="" *ngIf="!field.required" [selected]="config[field.key] === undefined"></option>
+                            <option *ngFor="let option of field.property.enum; let i = index" [value]="i" [selected]="config[field.key] === option">{{option}}</option>
+                        </select>
+                    </div>
+                </ng-container>
+                <ng-container *ngSwitchCase="'number'">
+                    <label>{{field.property.title || field.key}}<span *ngIf="field.required"> *</span></label>
+                    <input type="number" class="form-control" [value]="config[field.key] !== undefined ? config[field.key] : ''" [attr.min]="field.property.minimum" [attr.max]="field.property.maximum" [attr.step]="field.property.type === 'integer' ? 1 : 'any'" (input)="setValue(field, $event.target.value) //noinspection UnresolvedVariable">
+                </ng-container>
+                <ng-container *ngSwitchDefault>
+                    <label>{{field.property.title || field.key}}<span *ngIf="field.required"> *</span></label>
+                    <input type="text" class="form-control" [value]="config[field.key] !== undefined ? config[field.key] : ''" [attr.maxlength]="field.property.maxLength" (input)="setValue(field, $event.target.value) //noinspection UnresolvedVariable">
+                </ng-container>
+            </ng-container>
+            <p class="help-block" *ngIf="field.property.description">{{field.property.description}}</p>
+            <p class="help-block" *ngIf="errors[field.key]">{{errors[field.key]}}</p>
+        </div>
+    `
+})
+export class RuntimeWidgetConfigFormComponent implements OnInit, OnDestroy {
+    // Set by the RuntimeWidgetLoaderService
+    schema: RuntimeWidgetConfigSchema;
+    config: any;
+
+    fields: ConfigField[] = [];
+    // Keyed by property
+    errors: {[key: string]: string} = {};
+
+    private control = new FormControl(undefined, () => Object.keys(this.errors).length > 0 ? {[CONFIG_CONTROL_NAME]: this.errors} : null);
+
+    private destroyed = false;
+
+    constructor(@Optional() private configForm: NgForm) {}
+
+    ngOnInit() {
+        applyConfigDefaults(this.schema, this.config);
+        const required = this.schema.required || [];
+        this.fields = Object.keys(this.schema.properties).map(key => ({
+            key,
+            property: this.schema.properties[key],
+            required: required.includes(key)
+        }));
+        this.validate();
+        if (this.configForm) {
+            // Added asynchronously (as ngModel does) so that the form's validity doesn't change while the dashboard is being checked
+            Promise.resolve().then(() => {
+                if (!this.destroyed) this.configForm.form.addControl(CONFIG_CONTROL_NAME, this.control);
+            });
+        } else {
+            console.warn('Unable to find the widget config form, an invalid config can still be saved');
+        }
+    }
+
+    ngOnDestroy() {
+        this.destroyed = true;
+        if (this.configForm && this.configForm.form.get(CONFIG_CONTROL_NAME) === this.control) {
+            this.configForm.form.removeControl(CONFIG_CONTROL_NAME);
+        }
+    }
+
+    inputType(property: RuntimeWidgetConfigSchemaProperty): 'checkbox' | 'select' | 'number' | 'text' {
+        if (Array.isArray(property.enum)) {
+            return 'select';
+        }
+        switch (property.type) {
+            case 'boolean': return 'checkbox';
+            case 'number':
+            case 'integer': return 'number';
+            default: return 'text';
+        }
+    }
+
+    setValue(field: ConfigField, value: string | boolean) {
+        if (value === '') {
+            delete this.config[field.key];
+        } else if (field.property.type === 'number' || field.property.type === 'integer') {
+            this.config[field.key] = Number(value);
+        } else {
+            this.config[field.key] = value;
+        }
+        this.validate();
+    }
+
+    setOption(field: ConfigField, index: string) {
+        if (index === '') {
+            delete this.config[field.key];
+        } else {
+            this.config[field.key] = field.property.enum[Number(index)];
+        }
+        this.validate();
+    }
+
+    private validate() {
+        this.errors = validateConfig(this.schema, this.config)
+            .reduce((errors, error) => ({...errors, [error.property]: error.message}), {});
+        this.control.updateValueAndValidity();
+    }
+}
+
+// Compiled at runtime by the RuntimeWidgetLoaderService, so that apps don't need to import anything extra
+@NgModule({
+    declarations: [RuntimeWidgetConfigFormComponent],
+    imports: [CommonModule],
+    entryComponents: [RuntimeWidgetConfigFormComponent]
+})
+export class RuntimeWidgetConfigFormModule {}
@@ -0,0 +1,86 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {applyConfigDefaults, configSchemaProblems, prepareConfig, RuntimeWidgetConfigSchema, validateConfig} from "./runtime-widget-config-schema";
+
+describe('validateConfig', () => {
+    const schema: RuntimeWidgetConfigSchema = {
+        type: 'object',
+        properties: {
+            title: {type: 'string', title: 'Title', minLength: 2, maxLength: 5},
+            code: {type: 'string', pattern: '^[A-Z]+$'},
+            count: {type: 'integer', minimum: 1, maximum: 10},
+            ratio: {type: 'number'},
+            enabled: {type: 'boolean'},
+            colour: {type: 'string', enum: ['red', 'green']}
+        },
+        required: ['title']
+    };
+
+    it('accepts a valid config, ignoring fields that aren\'t in the schema', () => {
+        expect(validateConfig(schema, {title: 'Temp', code: 'ABC', count: 3, ratio: 0.5, enabled: true, colour: 'red', device: {id: '1'}})).toEqual([]);
+    });
+
+    it('reports required properties that are missing', () => {
+        expect(validateConfig(schema, {})).toEqual([{property: 'title', message: 'Title is required'}]);
+        expect(validateConfig(schema, {title: ''})).toEqual([{property: 'title', message: 'Title is required'}]);
+    });
+
+    it('reports values that don\'t match their property', () => {
+        expect(validateConfig(schema, {title: 'T', code: 'abc', count: 2.5, ratio: 'half', enabled: 'yes', colour: 'blue'})).toEqual([
+            {property: 'title', message: 'Title must be at least 2 characters'},
+            {property: 'code', message: 'code must match: ^[A-Z]+$'},
+            {property: 'count', message: 'count must be a whole number'},
+            {property: 'ratio', message: 'ratio must be a number'},
+            {property: 'enabled', message: 'enabled must be true or false'},
+            {property: 'colour', message: 'colour must be one of: red, green'}
+        ]);
+        expect(validateConfig(schema, {title: 'Too long', count: 11})).toEqual([
+            {property: 'title', message: 'Title must be at most 5 characters'},
+            {property: 'count', message: 'count must be at most 10'}
+        ]);
+    });
+});
+
+describe('applyConfigDefaults', () => {
+    it('fills in the defaults of properties that aren\'t set', () => {
+        const schema: RuntimeWidgetConfigSchema = {properties: {
+            count: {type: 'integer', default: 5},
+            title: {type: 'string', default: 'Widget'}
+        }};
+        const config = {title: 'Mine'};
+        applyConfigDefaults(schema, config);
+        expect(config).toEqual({title: 'Mine', count: 5} as any);
+    });
+});
+
+describe('prepareConfig', () => {
+    it('throws if the config is invalid once the defaults are applied', () => {
+        const schema: RuntimeWidgetConfigSchema = {properties: {count: {type: 'integer', minimum: 1}}, required: ['count']};
+        expect(() => prepareConfig(schema, {count: 0})).toThrowError('Invalid configuration, edit the widget to fix it:\ncount must be at least 1');
+        expect(() => prepareConfig({...schema, properties: {count: {type: 'integer', default: 1}}}, {})).not.toThrow();
+    });
+});
+
+describe('configSchemaProblems', () => {
+    it('rejects schemas that a config form can\'t be generated for', () => {
+        expect(configSchemaProblems({properties: {count: {type: 'integer'}}})).toEqual([]);
+        expect(configSchemaProblems({} as any)).toEqual(['The config schema must be an object schema with properties']);
+        expect(configSchemaProblems({properties: {tags: {type: 'array'}}} as any)).toEqual(['Config property: tags, must have one of the types: string, number, integer, boolean']);
+    });
+});
@@ -0,0 +1,160 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {DynamicComponentDefinition} from "@c8y/ngx-components";
+
+/**
+ * A field of a widget's config, the subset of JSON Schema that config forms can be generated for
+ */
+export interface RuntimeWidgetConfigSchemaProperty {
+    type: 'string' | 'number' | 'integer' | 'boolean';
+    title?: string;
+    description?: string;
+    default?: any;
+    // The allowed values, shown as a drop-down
+    enum?: any[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+}
+
+/**
+ * A JSON Schema for a widget's config, declared in the widget's DynamicComponentDefinition (as data.configSchema) or in its cumulocity.json widgets list (as configSchema)
+ * Only the fields listed in the schema are checked, the dashboard stores fields of its own in the config too (eg. the selected device)
+ */
+export interface RuntimeWidgetConfigSchema {
+    type?: 'object';
+    properties: {[key: string]: RuntimeWidgetConfigSchemaProperty};
+    required?: string[];
+}
+
+export interface RuntimeWidgetConfigError {
+    property: string;
+    message: string;
+}
+
+const PROPERTY_TYPES = ['string', 'number', 'integer', 'boolean'];
+
+/**
+ * The config schema declared in a widget's definition, if it has one
+ */
+export function configSchemaOf(widget: DynamicComponentDefinition): RuntimeWidgetConfigSchema | undefined {
+    const data = widget.data as any;
+    return data && data.configSchema ? data.configSchema : undefined;
+}
+
+/**
+ * Why a config schema can't be used, empty if it can
+ */
+export function configSchemaProblems(schema: RuntimeWidgetConfigSchema): string[] {
+    if (!schema || typeof schema !== 'object' || !schema.properties || typeof schema.properties !== 'object') {
+        return ['The config schema must be an object schema with properties'];
+    }
+    if (schema.type !== undefined && schema.type !== 'object') {
+        return [`The config schema must have type: object, not: ${schema.type}`];
+    }
+    return Object.keys(schema.properties)
+        .filter(key => !schema.properties[key] || !PROPERTY_TYPES.includes(schema.properties[key].type))
+        .map(key => `Config property: ${key}, must have one of the types: ${PROPERTY_TYPES.join(', ')}`);
+}
+
+/**
+ * Fills in the default value of each property that isn't set, the config is modified so that the defaults are saved with the dashboard
+ */
+export function applyConfigDefaults(schema: RuntimeWidgetConfigSchema, config: any) {
+    Object.keys(schema.properties)
+        .filter(key => config[key] === undefined && schema.properties[key].default !== undefined)
+        .forEach(key => config[key] = JSON.parse(JSON.stringify(schema.properties[key].default)));
+}
+
+export function validateConfig(schema: RuntimeWidgetConfigSchema, config: any): RuntimeWidgetConfigError[] {
+    const errors: RuntimeWidgetConfigError[] = [];
+    for (const key of Object.keys(schema.properties)) {
+        const property = schema.properties[key];
+        const value = config ? config[key] : undefined;
+        const title = property.title || key;
+        if (value === undefined || value === null || value === '') {
+            if ((schema.required || []).includes(key)) {
+                errors.push({property: key, message: `${title} is required`});
+            }
+            continue;
+        }
+        const message = propertyError(property, value);
+        if (message !== undefined) {
+            errors.push({property: key, message: `${title} ${message}`});
+        }
+    }
+    return errors;
+}
+
+/**
+ * Applies the schema's defaults to the config then validates it
+ * @throws If the config isn't valid
+ */
+export function prepareConfig(schema: RuntimeWidgetConfigSchema, config: any) {
+    if (!config) {
+        return;
+    }
+    applyConfigDefaults(schema, config);
+    const errors = validateConfig(schema, config);
+    if (errors.length > 0) {
+        throw Error(`Invalid configuration, edit the widget to fix it:\n${errors.map(error => error.message).join('\n')}`);
+    }
+}
+
+function propertyError(property: RuntimeWidgetConfigSchemaProperty, value: any): string | undefined {
+    if (Array.isArray(property.enum) && !property.enum.includes(value)) {
+        return `must be one of: ${property.enum.join(', ')}`;
+    }
+    switch (property.type) {
+        case 'boolean':
+            return typeof value !== 'boolean' ? 'must be true or false' : undefined;
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || isNaN(value)) {
+                return 'must be a number';
+            }
+            if (property.type === 'integer' && Math.floor(value) !== value) {
+                return 'must be a whole number';
+            }
+            if (property.minimum !== undefined && value < property.minimum) {
+                return `must be at least ${property.minimum}`;
+            }
+            if (property.maximum !== undefined && value > property.maximum) {
+                return `must be at most ${property.maximum}`;
+            }
+            return undefined;
+        case 'string':
+            if (typeof value !== 'string') {
+                return 'must be text';
+            }
+            if (property.minLength !== undefined && value.length < property.minLength) {
+                return `must be at least ${property.minLength} characters`;
+            }
+            if (property.maxLength !== undefined && value.length > property.maxLength) {
+                return `must be at most ${property.maxLength} characters`;
+            }
+            if (property.pattern !== undefined && !new RegExp(property.pattern).test(value)) {
+                return `must match: ${property.pattern}`;
+            }
+            return undefined;
+    }
+    return undefined;
+}
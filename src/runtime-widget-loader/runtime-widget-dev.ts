@@ -0,0 +1,202 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {RuntimeWidgetSource, RuntimeWidgetSourceEntry} from "./runtime-widget-source";
+
+// The url parameter, and localStorage key, that list the dev servers to load widgets from
+export const DEV_SERVER_PARAM = 'runtimeWidgetDev';
+
+// The webpack-dev-server websocket endpoints (v4, then v3's sockjs raw websocket)
+const DEV_SERVER_SOCKETS = ['/ws', '/sockjs-node/websocket'];
+// How often to check for a rebuild if the dev server doesn't have a websocket
+const POLL_INTERVAL = 2000;
+
+/**
+ * The base urls of the widget dev servers to load widgets from, each serving a widget's cumulocity.json and importManifest.js
+ * From the runtimeWidgetDev url parameter (eg. ?runtimeWidgetDev=http://localhost:9001, comma separated or repeated for more than one)
+ * and the runtimeWidgetDev localStorage item (a JSON list of urls)
+ * Anyone can send a link (or write to localStorage from a script), so these may only point at a dev server on this machine
+ * @param devServers Dev servers given by the application itself, these may be on any host
+ */
+export function devServerUrls(devServers: string[] = []): string[] {
+    const urls: string[] = [...devServers];
+    const addLoopbackUrl = (url: string, from: string) => {
+        if (isLoopback(window.location.href) || isLoopback(url)) {
+            urls.push(url);
+        } else {
+            console.warn(`Ignoring widget dev server: ${url}, only dev servers on localhost can be given in the ${from}. Add other dev servers to the application's devServers load option`);
+        }
+    };
+
+    const paramPattern = new RegExp(`[?&]${DEV_SERVER_PARAM}=([^&#]*)`, 'g');
+    const query = window.location.search + window.location.hash;
+    let match: RegExpExecArray | null;
+    while ((match = paramPattern.exec(query)) !== null) {
+        decodeURIComponent(match[1]).split(',').map(url => url.trim()).filter(url => url.length > 0)
+            .forEach(url => addLoopbackUrl(url, 'url'));
+    }
+
+    try {
+        const stored = JSON.parse(localStorage.getItem(DEV_SERVER_PARAM) || '[]');
+        if (Array.isArray(stored)) {
+            stored.filter(url => typeof url === 'string').forEach(url => addLoopbackUrl(url, 'localStorage'));
+        }
+    } catch (e) {
+        console.warn(`localStorage item: ${DEV_SERVER_PARAM}, is not a JSON list of urls\n`, e);
+    }
+
+    return Array.from(new Set(urls.map(url => url.replace(/\/+$/, ''))));
+}
+
+/**
+ * Whether the url parameter or localStorage ask for any dev servers, so that the user can be told why they are ignored when dev mode is off
+ */
+export function isDevServerRequested(): boolean {
+    return new RegExp(`[?&]${DEV_SERVER_PARAM}=`).test(window.location.search + window.location.hash) || !!localStorage.getItem(DEV_SERVER_PARAM);
+}
+
+/**
+ * The widgets served by the configured dev servers (see devServerUrls)
+ */
+export class DevServerWidgetSource implements RuntimeWidgetSource {
+    readonly name = 'dev-server';
+
+    /**
+     * @param urls The dev servers to load widgets from, empty unless the application has dev mode on
+     * @param onError Called for each dev server that a widget couldn't be loaded from
+     */
+    constructor(private urls: () => string[], private onError: (devServerUrl: string, error: any) => void = () => {}) {}
+
+    async listWidgets(): Promise<RuntimeWidgetSourceEntry[]> {
+        const entries: RuntimeWidgetSourceEntry[] = [];
+        await Promise.all(this.urls().map(async devServerUrl => {
+            try {
+                const response = await fetch(`${devServerUrl}/cumulocity.json?${Date.now()}`);
+                if (response.status !== 200) {
+                    // noinspection ExceptionCaughtLocallyJS
+                    throw Error(`Failed to fetch cumulocity.json, status: ${response.status}`);
+                }
+                const c8yJson = await response.json();
+                if (!c8yJson.contextPath) {
+                    // noinspection ExceptionCaughtLocallyJS
+                    throw Error('cumulocity.json has no contextPath');
+                }
+                entries.push({contextPath: c8yJson.contextPath, url: devServerUrl});
+            } catch (e) {
+                this.onError(devServerUrl, e);
+            }
+        }));
+        return entries;
+    }
+}
+
+/**
+ * Calls onRebuild whenever the dev server finishes a new build
+ * Listens to webpack-dev-server's websocket if it has one, otherwise polls the given file for changes
+ * @param baseUrl
+ * @param pollUrl The file to poll if there is no websocket (eg. the widget's chunk)
+ * @param onRebuild
+ * @returns Stops watching
+ */
+export function watchDevServer(baseUrl: string, pollUrl: string, onRebuild: () => void): () => void {
+    let stopped = false;
+    let socket: WebSocket | undefined;
+    let pollTimer: any;
+    // The hash of the build that is loaded, kept across reconnects so a build made while the dev server restarted is picked up
+    let currentHash: string | undefined;
+    // Once the dev server's websocket has been found, keep reconnecting to it rather than falling back to polling
+    let socketFound = false;
+
+    const poll = async (previousVersion?: string) => {
+        if (stopped) {
+            return;
+        }
+        let version = previousVersion;
+        try {
+            const response = await fetch(pollUrl, {method: 'HEAD', cache: 'no-store'});
+            version = response.headers.get('etag') || response.headers.get('last-modified') || undefined;
+            if (previousVersion !== undefined && version !== undefined && version !== previousVersion) {
+                onRebuild();
+            }
+        } catch (e) {
+            // The dev server is probably restarting, try again later
+        }
+        pollTimer = setTimeout(() => poll(version), POLL_INTERVAL);
+    };
+
+    const connect = (endpoints: string[]) => {
+        if (stopped) {
+            return;
+        }
+        if (endpoints.length === 0) {
+            poll();
+            return;
+        }
+        const url = new URL(endpoints[0], `${baseUrl}/`);
+        url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+        let latestHash: string | undefined;
+        socket = new WebSocket(url.href);
+        socket.onopen = () => socketFound = true;
+        socket.onmessage = event => {
+            let message: {type: string, data?: any};
+            try {
+                message = JSON.parse(event.data);
+            } catch (e) {
+                return;
+            }
+            if (message.type === 'hash') {
+                latestHash = message.data;
+            } else if ((message.type === 'ok' || message.type === 'warnings') && latestHash !== undefined) {
+                // The first build reported is the one that is already loaded
+                if (currentHash !== undefined && currentHash !== latestHash) {
+                    onRebuild();
+                }
+                currentHash = latestHash;
+            }
+        };
+        socket.onclose = () => {
+            if (stopped) {
+                return;
+            }
+            if (socketFound) {
+                // The dev server restarted, reconnect once it is back
+                setTimeout(() => connect(endpoints), POLL_INTERVAL);
+            } else {
+                connect(endpoints.slice(1));
+            }
+        };
+    };
+
+    connect(DEV_SERVER_SOCKETS);
+
+    return () => {
+        stopped = true;
+        clearTimeout(pollTimer);
+        if (socket) {
+            socket.close();
+        }
+    };
+}
+
+function isLoopback(url: string): boolean {
+    try {
+        return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(url).hostname);
+    } catch (e) {
+        return false;
+    }
+}
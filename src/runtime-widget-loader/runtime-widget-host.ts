@@ -0,0 +1,97 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {InjectionToken, Injector, VERSION} from "@angular/core";
+import {FetchClient} from "@c8y/client";
+
+export const PROVIDED_EXTERNALS = [
+    "@angular/animations",
+    "@angular/common",
+    "@angular/common/http",
+    "@angular/cdk",
+    "@angular/core",
+    "@angular/forms",
+    "@angular/http",
+    "@angular/platform-browser",
+    "@angular/platform-browser/animations",
+    "@angular/router",
+    "@c8y/client",
+    "@c8y/ngx-components"
+];
+
+/**
+ * The host application's @c8y/ngx-components version, the Web SDK doesn't expose it at runtime so it is best provided from the application's build:
+ * {provide: RUNTIME_WIDGET_HOST_VERSION, useValue: require('@c8y/ngx-components/package.json').version}
+ */
+export const RUNTIME_WIDGET_HOST_VERSION = new InjectionToken<string>('RUNTIME_WIDGET_HOST_VERSION');
+
+// Undefined until detectHostC8yVersion has found it
+let hostC8yVersion: string | undefined;
+let hostC8yVersionDetection: Promise<string | undefined> | undefined;
+
+/**
+ * The host application's Web SDK version, if the application provides it (see RUNTIME_WIDGET_HOST_VERSION)
+ */
+export function providedHostC8yVersion(injector: Injector): string | undefined {
+    const version = injector.get(RUNTIME_WIDGET_HOST_VERSION, null);
+    return typeof version === 'string' && version.length > 0 ? version : undefined;
+}
+
+/**
+ * Finds the host application's Web SDK version: provided by the application (RUNTIME_WIDGET_HOST_VERSION), or from the webSdkVersion in the application's cumulocity.json
+ * The version is only looked up once
+ * @param injector
+ * @param contextPath The context path of the host application
+ * @returns undefined if the version couldn't be found
+ */
+export function detectHostC8yVersion(injector: Injector, contextPath: string): Promise<string | undefined> {
+    if (!hostC8yVersionDetection) {
+        hostC8yVersionDetection = (async () => {
+            let version = providedHostC8yVersion(injector);
+            if (version === undefined) {
+                try {
+                    const response = await injector.get(FetchClient).fetch(`/apps/${contextPath}/cumulocity.json?${Date.now()}`);
+                    const manifest = response.status === 200 ? await response.json() : undefined;
+                    if (manifest && typeof manifest.webSdkVersion === 'string' && manifest.webSdkVersion.length > 0) {
+                        version = manifest.webSdkVersion;
+                    }
+                } catch (e) {
+                    console.warn(`Unable to read the cumulocity.json of: ${contextPath}\n`, e);
+                }
+            }
+            hostC8yVersion = version;
+            return version;
+        })();
+    }
+    return hostC8yVersionDetection;
+}
+
+/**
+ * The versions of the shared modules in the host application, a version is undefined if it isn't known (eg. @c8y/ngx-components before detectHostC8yVersion has found it)
+ */
+export function hostVersions(): {[packageName: string]: string | undefined} {
+    return {
+        "@angular/core": VERSION.full,
+        "@c8y/ngx-components": hostC8yVersion
+    };
+}
+
+export function majorVersion(version: string): number | undefined {
+    const match = /(\d+)/.exec(version || '');
+    return match ? Number(match[1]) : undefined;
+}
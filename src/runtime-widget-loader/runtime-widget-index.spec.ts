@@ -0,0 +1,37 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {mergeIndexEntries} from "./runtime-widget-index";
+
+describe('mergeIndexEntries', () => {
+    const chart = {id: 'chart-widget', contextPath: 'chart', label: 'Chart'};
+    const map = {id: 'map-widget', contextPath: 'map', label: 'Map'};
+
+    it('replaces every entry for the widget\'s contextPath, leaving other widgets\' entries alone', () => {
+        const chartV2 = {id: 'chart-widget-v2', contextPath: 'chart', label: 'Chart v2'};
+        expect(mergeIndexEntries([chart, map], 'chart', [chartV2])).toEqual([map, chartV2]);
+    });
+
+    it('removes the widget\'s entries when it has none', () => {
+        expect(mergeIndexEntries([chart, map], 'chart', [])).toEqual([map]);
+    });
+
+    it('starts a new index if there isn\'t one', () => {
+        expect(mergeIndexEntries(undefined, 'chart', [chart])).toEqual([chart]);
+    });
+});
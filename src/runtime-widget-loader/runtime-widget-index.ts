@@ -0,0 +1,61 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {DynamicComponentDefinition} from "@c8y/ngx-components";
+import {configSchemaOf, RuntimeWidgetConfigSchema} from "./runtime-widget-config-schema";
+
+/**
+ * An entry in the widget index stored on the app_runtimeContext (as widgetIndex)
+ * Used to list a widget in the "Add widget" picker without downloading it
+ */
+export interface RuntimeWidgetIndexEntry {
+    id: string;
+    contextPath: string;
+    label?: string;
+    description?: string;
+    previewImage?: string;
+    // Whether the widget has a config component (or a config schema to generate one from)
+    configurable?: boolean;
+    // A JSON Schema for the widget's config, used to generate a config form if the widget doesn't have a config component
+    configSchema?: RuntimeWidgetConfigSchema;
+    // The widget is only available to users with all of these roles
+    requiredRoles?: string[];
+}
+
+export function toIndexEntry(contextPath: string, widget: DynamicComponentDefinition): RuntimeWidgetIndexEntry {
+    return {
+        id: widget.id,
+        contextPath,
+        ...widget.label && {label: widget.label},
+        ...widget.description && {description: widget.description},
+        // Only keep the preview image if it is a url (or data url), anything else can't be persisted
+        ...typeof widget.previewImage === 'string' && {previewImage: widget.previewImage},
+        configurable: !!widget.configComponent || !!configSchemaOf(widget),
+        ...configSchemaOf(widget) && {configSchema: configSchemaOf(widget)}
+    };
+}
+
+/**
+ * Replaces all of the index entries for a widget's contextPath
+ */
+export function mergeIndexEntries(widgetIndex: RuntimeWidgetIndexEntry[] | undefined, contextPath: string, entries: RuntimeWidgetIndexEntry[]): RuntimeWidgetIndexEntry[] {
+    return [
+        ...(widgetIndex || []).filter(entry => entry.contextPath !== contextPath),
+        ...entries
+    ];
+}
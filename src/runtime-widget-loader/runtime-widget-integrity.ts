@@ -0,0 +1,184 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {IApplication, IFetchResponse} from "@c8y/client";
+
+// The file in a widget zip that holds the widget's signature
+export const SIGNATURE_FILE = 'signature.json';
+
+// The fragment on a widget's application that records the verified hashes of each of its binaries
+export const INTEGRITY_FRAGMENT = 'runtimeWidgetIntegrity';
+
+// The tenant options that configure widget signing
+const SIGNING_OPTION_CATEGORY = 'runtimeWidgetLoader';
+const TRUSTED_KEYS_OPTION = 'trustedKeys';
+const REQUIRE_SIGNATURE_OPTION = 'requireSignature';
+
+export type RuntimeWidgetSignatureAlgorithm = 'RSASSA-PKCS1-v1_5' | 'ECDSA-P256';
+
+/**
+ * The contents of a widget zip's signature.json
+ * The signature is over the digest document (see digestDocument) of the files
+ */
+export interface RuntimeWidgetSignature {
+    algorithm: RuntimeWidgetSignatureAlgorithm;
+    // The id of the trusted key that signed the widget (optional, every trusted key is tried if omitted)
+    keyId?: string;
+    // Base64, for ECDSA this is the raw (r || s) signature rather than DER
+    signature: string;
+    // The SHA-256 (hex) of every file in the zip, keyed by the file's path within the zip
+    files: {[path: string]: string};
+}
+
+/**
+ * A public key that the tenant trusts to sign widgets
+ */
+export interface RuntimeWidgetTrustedKey {
+    id: string;
+    algorithm: RuntimeWidgetSignatureAlgorithm;
+    // Base64 SPKI (the body of a PEM "PUBLIC KEY")
+    publicKey: string;
+}
+
+export interface RuntimeWidgetSigningOptions {
+    trustedKeys: RuntimeWidgetTrustedKey[];
+    // Reject widgets that aren't signed
+    requireSignature: boolean;
+}
+
+/**
+ * The verified hashes of one binary of a widget
+ */
+export interface RuntimeWidgetIntegrityRecord {
+    files: {[path: string]: string};
+    keyId: string;
+    // ISO date
+    verified: string;
+}
+
+/**
+ * One line per file, sorted by path, in the same format as sha256sum: "<hash>  <path>\n"
+ */
+export function digestDocument(files: {[path: string]: string}): string {
+    return Object.keys(files).sort().map(path => `${files[path]}  ${path}\n`).join('');
+}
+
+export async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest)).map(byte => ('0' + byte.toString(16)).slice(-2)).join('');
+}
+
+/**
+ * Checks a widget's signature against the tenant's trusted keys
+ * @returns The key that signed the widget, or undefined if none of the trusted keys did
+ */
+export async function verifySignature(signature: RuntimeWidgetSignature, trustedKeys: RuntimeWidgetTrustedKey[]): Promise<RuntimeWidgetTrustedKey | undefined> {
+    const candidates = trustedKeys.filter(key => key.algorithm === signature.algorithm && (signature.keyId === undefined || key.id === signature.keyId));
+    const data = new TextEncoder().encode(digestDocument(signature.files));
+    const signatureBytes = base64ToBytes(signature.signature);
+    for (const trustedKey of candidates) {
+        try {
+            const isEcdsa = trustedKey.algorithm === 'ECDSA-P256';
+            const importParams: EcKeyImportParams | RsaHashedImportParams = isEcdsa ? {name: 'ECDSA', namedCurve: 'P-256'} : {name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256'};
+            const verifyParams: EcdsaParams | AlgorithmIdentifier = isEcdsa ? {name: 'ECDSA', hash: 'SHA-256'} : 'RSASSA-PKCS1-v1_5';
+            const publicKey = await crypto.subtle.importKey('spki', base64ToBytes(trustedKey.publicKey), importParams, false, ['verify']);
+            if (await crypto.subtle.verify(verifyParams, publicKey, signatureBytes, data)) {
+                return trustedKey;
+            }
+        } catch (e) {
+            console.warn(`Unable to verify widget signature with trusted key: ${trustedKey.id}\n`, e);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Reads the tenant options that configure widget signing, both are optional
+ * runtimeWidgetLoader.trustedKeys: A JSON list of RuntimeWidgetTrustedKey
+ * runtimeWidgetLoader.requireSignature: "true" to reject widgets that aren't signed
+ * @param fetch Fetches from Cumulocity (with the user's credentials)
+ */
+export async function readSigningOptions(fetch: (url: string) => Promise<IFetchResponse>): Promise<RuntimeWidgetSigningOptions> {
+    const readOption = async (key: string): Promise<string | undefined> => {
+        const response = await fetch(`/tenant/options/${SIGNING_OPTION_CATEGORY}/${key}`);
+        if (response.status !== 200) {
+            return undefined;
+        }
+        return (await response.json()).value;
+    };
+
+    let trustedKeys: RuntimeWidgetTrustedKey[] = [];
+    const trustedKeysOption = await readOption(TRUSTED_KEYS_OPTION);
+    if (trustedKeysOption) {
+        try {
+            trustedKeys = JSON.parse(trustedKeysOption);
+        } catch (e) {
+            console.warn(`Tenant option: ${SIGNING_OPTION_CATEGORY}.${TRUSTED_KEYS_OPTION}, is not valid JSON\n`, e);
+        }
+    }
+    const requireSignature = (await readOption(REQUIRE_SIGNATURE_OPTION)) === 'true';
+    return {trustedKeys: Array.isArray(trustedKeys) ? trustedKeys : [], requireSignature};
+}
+
+/**
+ * Whether a parsed signature.json has the fields needed to verify it
+ */
+export function isSignature(signature: any): signature is RuntimeWidgetSignature {
+    return !!signature && typeof signature.signature === 'string' && typeof signature.files === 'object' && !!signature.files;
+}
+
+/**
+ * The record for the widget app's active binary
+ * @returns undefined if the widget has never been verified, null if it has been verified but not its active binary
+ */
+export function activeIntegrityRecord(widgetApp: IApplication): RuntimeWidgetIntegrityRecord | undefined | null {
+    const records: {[binaryId: string]: RuntimeWidgetIntegrityRecord} | undefined = (widgetApp as any)[INTEGRITY_FRAGMENT];
+    if (!records || Object.keys(records).length === 0) {
+        return undefined;
+    }
+    return records[String(widgetApp.activeVersionId)] || null;
+}
+
+/**
+ * Converts the path that a file is served from (eg. /apps/my-widget/main.js) to its path within the widget's zip
+ */
+export function pathInWidgetZip(contextPath: string, path: string): string {
+    const appPath = `/apps/${contextPath}/`;
+    const index = path.indexOf(appPath);
+    return index >= 0 ? path.substring(index + appPath.length) : path.replace(/^\/+/, '');
+}
+
+export function integrityError(message: string): Error {
+    const error = Error(message);
+    error.name = 'RuntimeWidgetIntegrityError';
+    return error;
+}
+
+export function isIntegrityError(error: any): boolean {
+    return !!error && error.name === 'RuntimeWidgetIntegrityError';
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64.replace(/\s/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
@@ -19,85 +19,341 @@
 import {
     Compiler,
     ComponentFactory,
+    ComponentRef,
+    ErrorHandler,
     Injectable,
     Injector,
-    NgModuleRef
+    isDevMode,
+    NgModuleRef,
+    OnDestroy,
+    Optional
 } from "@angular/core";
 import {
     DynamicComponentDefinition,
     HOOK_COMPONENTS,
-    DynamicComponentComponent,
     DynamicComponentService, AlertService, AppStateService, Alert
 } from "@c8y/ngx-components";
-import {BehaviorSubject, of} from "rxjs";
-import {filter, first, switchMap} from "rxjs/operators";
+import {BehaviorSubject, merge, of, Subject} from "rxjs";
+import {filter, first, startWith, switchMap} from "rxjs/operators";
 import corsImport from "webpack-external-import/corsImport";
-import { IApplication, FetchClient, InventoryService } from "@c8y/client";
+import { IApplication, FetchClient, IFetchResponse, IUser, UserService } from "@c8y/client";
 import {contextPathFromURL} from "../runtime-widget-installer/runtime-widget-installer.service";
+import {compatibilityProblems, RuntimeWidgetCompatibility, sortByRequiredWidgets} from "./runtime-widget-compatibility";
+import {detectHostC8yVersion, hostVersions, providedHostC8yVersion} from "./runtime-widget-host";
+import {concurrencyLimit, withTimeout} from "./runtime-widget-concurrency";
+import {RuntimeWidgetIndexEntry} from "./runtime-widget-index";
+import {RuntimeContextRepository} from "./runtime-context-repository";
+import {RuntimeWidgetMissingComponent, RuntimeWidgetMissingModule} from "./runtime-widget-missing.component";
+import {RuntimeWidgetBoundaryComponent, RuntimeWidgetBoundaryModule} from "./runtime-widget-boundary.component";
+import {RuntimeWidgetConfigFormComponent, RuntimeWidgetConfigFormModule} from "./runtime-widget-config-form.component";
+import {configSchemaOf, configSchemaProblems, prepareConfig, RuntimeWidgetConfigSchema} from "./runtime-widget-config-schema";
+import {RuntimeWidgetBundle, RuntimeWidgetCacheService} from "./runtime-widget-cache.service";
+import {missingRoles} from "./runtime-widget-roles";
+import {createNgModule, ngModuleFormat} from "./runtime-widget-ng-module";
+import {devServerUrls, DevServerWidgetSource, isDevServerRequested, watchDevServer} from "./runtime-widget-dev";
+import {RUNTIME_WIDGET_SOURCES, RuntimeWidgetSource, RuntimeWidgetSourceContext, RuntimeWidgetSourceEntry} from "./runtime-widget-source";
+import {HostedApplicationWidgetSource, InventoryWidgetSource} from "./runtime-widget-sources";
+import {C8yHostAdapter, RuntimeWidgetHost} from "../non-public-c8y-access/c8y-host-adapter";
+import {adapterVersionProblems, selectHostAdapter} from "../non-public-c8y-access/c8y-host-adapters";
+import {
+    activeIntegrityRecord,
+    integrityError,
+    isIntegrityError,
+    isSignature,
+    pathInWidgetZip,
+    readSigningOptions,
+    RuntimeWidgetIntegrityRecord,
+    RuntimeWidgetSigningOptions,
+    sha256Hex,
+    SIGNATURE_FILE,
+    verifySignature
+} from "./runtime-widget-integrity";
 
 interface WidgetComponentFactoriesAndInjector {
     componentFactory: ComponentFactory<any>,
     configComponentFactory?: ComponentFactory<any>,
+    // Set if the widget declares a config schema, its config is validated against it
+    configSchema?: RuntimeWidgetConfigSchema,
     injector: Injector
 }
 
+export type RuntimeWidgetLoadStatus = 'loading' | 'lazy' | 'loaded' | 'manifest-missing' | 'chunk-missing' | 'compile-failed' | 'incompatible' | 'requirement-missing' | 'not-permitted' | 'integrity-failed' | 'timed-out' | 'failed';
+
+export type RuntimeWidgetLoadPhase = 'compatibility' | 'manifest' | 'chunk' | 'compile' | 'register';
+
+// Diagnostics for the most recent attempt to load a widget
+export interface RuntimeWidgetLoadReportEntry {
+    contextPath: string,
+    status: RuntimeWidgetLoadStatus,
+    // The last phase that was reached
+    phase?: RuntimeWidgetLoadPhase,
+    // Epoch milliseconds
+    started: number,
+    finished?: number,
+    // How long each phase took in milliseconds
+    timings: {[phase: string]: number},
+    error?: {
+        message: string,
+        stack?: string
+    },
+    widgetIds: string[],
+    // Errors thrown by the widget once it was loaded (the most recent few)
+    renderErrors?: {
+        // Undefined if the error couldn't be traced to a rendered widget
+        widgetId?: string,
+        message: string,
+        stack?: string,
+        // Epoch milliseconds
+        time: number
+    }[]
+}
+
+export interface RuntimeWidgetLoadOptions {
+    // The maximum number of widgets to download and compile at once
+    concurrency: number,
+    // How long to wait for each widget (in milliseconds) before giving up on it
+    widgetTimeout: number,
+    // Only download and compile widgets when a dashboard uses them (widgets must be in the app_runtimeContext's widgetIndex)
+    lazy: boolean,
+    // Keep downloaded widgets in IndexedDB, keyed by the version of the widget's app, so they are only downloaded again when they change (or if the network is down)
+    cache: boolean,
+    // Create each widget's modules in its own child injector (rather than directly in the application's root injector)
+    // An ErrorHandler is provided in it that reports the widget's errors to its error boundary
+    isolateInjectors: boolean,
+    // Load widgets from the dev servers listed in the runtimeWidgetDev url parameter or localStorage item (which must be on localhost)
+    // Defaults to angular's isDevMode(), so a production build only loads widgets from dev servers if the application turns this on
+    devMode: boolean,
+    // Dev servers on other hosts to load widgets from in dev mode, these can only be given by the application
+    devServers: string[]
+}
+
+// The number of render errors kept in each widget's load report entry
+const MAX_RENDER_ERRORS = 10;
+
+const DEFAULT_LOAD_OPTIONS: RuntimeWidgetLoadOptions = {
+    concurrency: 6,
+    widgetTimeout: 30000,
+    lazy: false,
+    cache: true,
+    isolateInjectors: false,
+    // Set from isDevMode() when loading, it can't be called until the application has started
+    devMode: false,
+    devServers: []
+};
+
+// Stands in for the component of a lazy widget that hasn't been loaded yet, it is never created
+class LazyRuntimeWidgetPlaceholder {}
+
+// Stands in for the config component of a widget that only declares a config schema, a RuntimeWidgetConfigFormComponent is created instead
+class GeneratedConfigFormPlaceholder {}
+
+// The parts of a widget's cumulocity.json that the loader uses
+interface RuntimeWidgetC8yJson {
+    compatibility?: RuntimeWidgetCompatibility,
+    // None of the widgets are available to users without all of these roles
+    requiredRoles?: string[],
+    widgets?: RuntimeWidgetIndexEntry[]
+}
+
+interface LoadedRuntimeWidget {
+    ngModules: NgModuleRef<unknown>[],
+    widgets: DynamicComponentDefinition[]
+}
+
 @Injectable({providedIn: 'root'})
-export class RuntimeWidgetLoaderService {
+export class RuntimeWidgetLoaderService implements OnDestroy {
     isLoaded$ = new BehaviorSubject(false);
     widgetFactories = new Map<string, WidgetComponentFactoriesAndInjector>();
+    // Emits the id of each widget as it is registered
+    widgetRegistered$ = new Subject<string>();
+
+    // Keyed by the widget's contextPath
+    private loadedWidgets = new Map<string, LoadedRuntimeWidget>();
+    // Every DynamicComponentComponent currently rendered, so that we can re-render them when a widget is unloaded or replaced
+    private dynamicComponentHosts = new Set<RuntimeWidgetHost>();
+    // Diagnostics for each widget, emitted whenever a widget's load progresses
+    loadReport$ = new BehaviorSubject<RuntimeWidgetLoadReportEntry[]>([]);
+    // Keyed by the widget's contextPath
+    private loadReport = new Map<string, RuntimeWidgetLoadReportEntry>();
+    // Placeholder definitions for lazy widgets that haven't been loaded yet, keyed by widget id
+    private lazyPlaceholders = new Map<string, DynamicComponentDefinition>();
+    // In progress (or completed) lazy loads, keyed by the widget's contextPath
+    private lazyLoads = new Map<string, Promise<string[]>>();
+    // The hosted application of each widget, keyed by the widget's contextPath
+    private widgetApps = new Map<string, IApplication>();
+    private cacheEnabled = false;
+    // Object urls created for cached chunks, keyed by the widget's contextPath
+    private objectUrls = new Map<string, string[]>();
+    // The roles needed to use each widget (as declared in its cumulocity.json), keyed by widget id
+    private widgetRequiredRoles = new Map<string, string[]>();
+    // The url that each widget not deployed as a hosted app is served from, keyed by the widget's contextPath
+    private widgetUrls = new Map<string, string>();
+    // The widgets served from a url in place of a signed hosted widget, they must be signed too
+    private signedContextPaths = new Set<string>();
+    // The tenant's signing options, read the first time a widget served from a url is loaded
+    private signingOptions?: Promise<RuntimeWidgetSigningOptions>;
+    // The widgets loaded from dev servers
+    private devContextPaths = new Set<string>();
+    // The dev servers to load widgets from, empty if dev mode is off
+    private activeDevServers: string[] = [];
+    // Stops watching each dev mode widget's dev server for rebuilds, keyed by the widget's contextPath
+    private devWatchers = new Map<string, () => void>();
+    // The widgets whose chunk webpack has already loaded, keyed by the widget's contextPath
+    private installedChunks = new Set<string>();
+    private isolateInjectors = false;
+    // Every error boundary currently rendered, so that errors thrown outside of change detection can be shown in the widget's tile
+    private widgetBoundaries = new Set<RuntimeWidgetBoundaryComponent>();
+    private boundaryFactory?: ComponentFactory<RuntimeWidgetBoundaryComponent>;
+    private configFormFactory?: ComponentFactory<RuntimeWidgetConfigFormComponent>;
+    // The config schemas declared in the widgets' cumulocity.json (or widget index), keyed by widget id
+    private widgetConfigSchemas = new Map<string, RuntimeWidgetConfigSchema>();
+
+    // Opens the widget installer, set by the RuntimeWidgetInstallerModule (if it is used)
+    private installHandler?: () => void;
+    private devServerSource: DevServerWidgetSource;
+    private hostedApplicationSource = new HostedApplicationWidgetSource();
+    private inventorySource: InventoryWidgetSource;
+    private hostAdapter: C8yHostAdapter;
+    // Whether the user has been told that the host's Web SDK version couldn't be found
+    private hostVersionWarned = false;
+    // Problems found by the host adapter's self-check, empty if the host is supported
+    readonly hostProblems: string[];
+    private missingWidgetFactory?: Promise<ComponentFactory<RuntimeWidgetMissingComponent>>;
 
     private fetchClient: FetchClient;
-    private invService: InventoryService;
-    constructor(private compiler: Compiler, private injector: Injector, private alertService: AlertService, private appStateService: AppStateService) {
+    private runtimeContextRepository: RuntimeContextRepository;
+    private userService: UserService;
+    // The JIT compiler is only needed for View Engine modules, newer versions of angular may not provide it
+    constructor(@Optional() private compiler: Compiler, private injector: Injector, private alertService: AlertService, private appStateService: AppStateService, private cacheService: RuntimeWidgetCacheService) {
         // Don't seem to be able to inject this normally - results in an import from @c8y/client/lib/src/core, I think this is an angular/typescript compiler bug
         this.fetchClient = this.injector.get(FetchClient);
-        this.invService =  this.injector.get(InventoryService);
+        this.runtimeContextRepository = this.injector.get(RuntimeContextRepository);
+        this.userService = this.injector.get(UserService);
+        this.inventorySource = new InventoryWidgetSource(this.runtimeContextRepository);
+        this.devServerSource = new DevServerWidgetSource(() => this.activeDevServers, (devServerUrl, e) => {
+            console.error(`Unable to load a widget from the dev server: ${devServerUrl}\n`, e);
+            this.alertService.danger(`Unable to load a widget from the dev server: ${devServerUrl}`, e.message);
+        });
+
+        // Check that the host application's internals are what the adapter expects before relying on them
+        // If the application doesn't provide its Web SDK version then the adapter is picked by its self-check, and the version is checked once it has been found (see checkHostVersion)
+        const {adapter, problems} = selectHostAdapter(providedHostC8yVersion(injector));
+        this.hostAdapter = adapter;
+        this.hostProblems = [...problems];
         this.monkeyPatch();
+        this.reportHostProblems(this.hostProblems);
+    }
+
+    ngOnDestroy() {
+        Array.from(this.devWatchers.keys()).forEach(contextPath => this.stopDevWatcher(contextPath));
     }
 
+    /**
+     * Takes over the rendering of dashboard widgets (DynamicComponentComponents), so that runtime widgets can be rendered
+     * Only the selected host adapter touches the Web SDK's internals
+     */
     monkeyPatch() {
         const runtimeWidgetLoaderService = this;
-        // Workaround to access private method of c8y
-        (DynamicComponentComponent.prototype as any).loadComponent = function (dynamicComponent) {
-            try {
-                this.error = undefined;
-                if ((dynamicComponent as any).isRuntimeLoaded) {
-                    const {componentFactory, configComponentFactory, injector} = runtimeWidgetLoaderService.widgetFactories.get(this.componentId)
-                    this.host.clear();
-                    const componentRef = this.host.createComponent(this.mode === 'component' ? componentFactory : configComponentFactory, undefined, injector);
-                    componentRef.instance.config = this.config;
-                } else {
-                    const componentFactory = this.componentFactoryResolver.resolveComponentFactory(this.mode === 'component' ? dynamicComponent.component : dynamicComponent.configComponent);
-                    this.host.clear();
-                    const componentRef = this.host.createComponent(componentFactory);
-                    componentRef.instance.config = this.config;
+        try {
+            this.hostAdapter.patchDynamicComponent({
+                definition$(host: RuntimeWidgetHost) {
+                    runtimeWidgetLoaderService.dynamicComponentHosts.add(host);
+                    // If the component isn't recognised then delay the widget load until either it has been registered or the runtimeLoadedWidgets have loaded
+                    return host.getDefinition$().pipe(switchMap(cmp => {
+                        if (cmp === undefined || (cmp as any).isRuntimeLoaded) {
+                            // Stay subscribed so that widgets loaded (or reloaded) later are picked up
+                            const ready$ = merge(
+                                runtimeWidgetLoaderService.isLoaded$.pipe(filter(loaded => loaded)),
+                                runtimeWidgetLoaderService.widgetRegistered$.pipe(filter(id => id === host.componentId))
+                            );
+                            return (runtimeWidgetLoaderService.widgetFactories.has(host.componentId) ? ready$.pipe(startWith(true)) : ready$).pipe(
+                                switchMap(() => host.getDefinition$())
+                            );
+                        } else {
+                            return of(cmp);
+                        }
+                    }));
+                },
+                render(host: RuntimeWidgetHost, dynamicComponent: DynamicComponentDefinition | undefined) {
+                    runtimeWidgetLoaderService.renderWidget(host, dynamicComponent);
+                },
+                destroyed(host: RuntimeWidgetHost) {
+                    runtimeWidgetLoaderService.dynamicComponentHosts.delete(host);
                 }
+            });
+        } catch (e) {
+            this.hostProblems.push(`Unable to patch DynamicComponentComponent: ${e.message || e}`);
+        }
+    }
+
+    private renderWidget(host: RuntimeWidgetHost, dynamicComponent: DynamicComponentDefinition | undefined) {
+        if (dynamicComponent === undefined) {
+            // The runtime widgets have loaded but this widget isn't one of them, it probably failed to load or has been uninstalled
+            this.renderMissingWidget(host);
+        } else if ((dynamicComponent as any).lazyContextPath && !this.widgetFactories.has(host.componentId)) {
+            // A lazy widget that hasn't been loaded yet, once it has been registered its placeholder definition is replaced, which loads the real component
+            host.clear();
+            this.loadLazyWidget((dynamicComponent as any).lazyContextPath)
+                .catch(e => this.renderMissingWidget(host, e));
+        } else if ((dynamicComponent as any).isRuntimeLoaded) {
+            if (!this.widgetFactories.has(host.componentId)) {
+                this.renderMissingWidget(host);
+                return;
             }
-            catch (ex) {
-                this.error = ex;
-            }
-        };
-        
-        DynamicComponentComponent.prototype.ngOnChanges = function () {
-            this.dynamicComponentService
-                .getById$(this.componentId)
-                // If the component isn't recognised then delay the widget load until the runtimeLoadedWidgets have loaded
-                .pipe(switchMap(cmp => {
-                    if (cmp === undefined || (cmp as any).isRuntimeLoaded) {
-                        return runtimeWidgetLoaderService.isLoaded$.pipe(
-                            filter(loaded => loaded),
-                            first(), // TODO: We could support multiple loads by removing this.... however without something to tear down the subscription we'd have a memory leak
-                            switchMap(() => this.dynamicComponentService
-                                .getById$(this.componentId))
-                        );
-                    } else {
-                        return of(cmp);
+            const {componentFactory, configComponentFactory, configSchema, injector} = this.widgetFactories.get(host.componentId);
+            host.clear();
+            let render: (create: (factory: ComponentFactory<any>, injector?: Injector) => ComponentRef<any>) => ComponentRef<any>;
+            if (host.mode === 'component' || configComponentFactory) {
+                render = create => {
+                    if (configSchema && host.mode === 'component') {
+                        prepareConfig(configSchema, host.config);
                     }
-                })).subscribe(cmp => this.loadComponent(cmp));
-        };
+                    const componentRef = create(host.mode === 'component' ? componentFactory : configComponentFactory, injector);
+                    componentRef.instance.config = host.config;
+                    return componentRef;
+                };
+            } else if (configSchema && this.configFormFactory) {
+                render = create => {
+                    const componentRef = create(this.configFormFactory);
+                    componentRef.instance.schema = configSchema;
+                    componentRef.instance.config = host.config;
+                    return componentRef;
+                };
+            } else {
+                // The widget has nothing to configure
+                return;
+            }
+            if (!this.boundaryFactory) {
+                // The error boundary couldn't be compiled, render the widget without one
+                try {
+                    render((factory, injector) => host.createComponent(factory, injector));
+                } catch (e) {
+                    this.renderMissingWidget(host, e);
+                }
+                return;
+            }
+            const boundary = host.createComponent(this.boundaryFactory).instance;
+            boundary.widgetId = host.componentId;
+            boundary.contextPath = this.findWidgetContextPath(host.componentId);
+            boundary.createWidget = viewContainer => render((factory, injector) => viewContainer.createComponent(factory, undefined, injector));
+            boundary.onError = error => this.reportRenderError(boundary.contextPath, host.componentId, error);
+            boundary.onDestroy = () => this.widgetBoundaries.delete(boundary);
+            this.widgetBoundaries.add(boundary);
+            boundary.start();
+        } else {
+            const componentFactory = host.resolveComponentFactory(host.mode === 'component' ? dynamicComponent.component : dynamicComponent.configComponent);
+            host.clear();
+            const componentRef = host.createComponent(componentFactory);
+            componentRef.instance.config = host.config;
+        }
     }
 
-    async loadRuntimeWidgets() {
+    /**
+     * Loads all of the widgets installed into the current application
+     * Widgets are loaded concurrently, each widget is available on dashboards as soon as it has loaded
+     * @param options Optionally override the number of widgets loaded at once, and how long to wait for each widget
+     */
+    async loadRuntimeWidgets(options: Partial<RuntimeWidgetLoadOptions> = {}) {
         // Wait for login
         const user = await this.appStateService.currentUser.pipe(filter(user => user != null), first()).toPromise();
         const alert: Alert = {
@@ -105,76 +361,1114 @@ export class RuntimeWidgetLoaderService {
             type: 'info'
         };
         this.alertService.add(alert);
+        try {
+            await this.checkHostVersion();
+            await this.prepareRenderComponents();
+            await this.loadInstalledWidgets(user, {...DEFAULT_LOAD_OPTIONS, devMode: isDevMode(), ...options});
+        } finally {
+            // Always signal that loading has finished, so that one bad widget doesn't prevent the rest of the dashboard from loading
+            this.alertService.remove(alert);
+            this.isLoaded$.next(true);
+        }
+    }
+
+    /**
+     * Finds the host application's Web SDK version (so that widgets' compatibility can be checked against it), and checks that the selected host adapter supports it
+     */
+    private async checkHostVersion() {
+        const sdkVersion = await detectHostC8yVersion(this.injector, contextPathFromURL());
+        if (sdkVersion === undefined) {
+            if (!this.hostVersionWarned) {
+                this.hostVersionWarned = true;
+                console.warn('Unable to find the Web SDK version of this application, provide RUNTIME_WIDGET_HOST_VERSION so that widgets\' @c8y/ngx-components compatibility can be checked');
+            }
+            return;
+        }
+        const problems = adapterVersionProblems(this.hostAdapter, sdkVersion).filter(problem => !this.hostProblems.includes(problem));
+        if (problems.length > 0) {
+            this.hostProblems.push(...problems);
+            this.reportHostProblems(problems);
+        }
+    }
+
+    private reportHostProblems(problems: string[]) {
+        if (problems.length) {
+            const sdkVersion = hostVersions()['@c8y/ngx-components'] || providedHostC8yVersion(this.injector) || 'unknown version';
+            console.error(`Runtime widget loader (adapter: ${this.hostAdapter.name}) does not support this Cumulocity application (${sdkVersion}):\n${problems.join('\n')}`);
+            this.alertService.danger(`Runtime widgets may not work in this version of Cumulocity (${sdkVersion}).`, problems.join('\n'));
+        }
+    }
+
+    private async loadInstalledWidgets(user: IUser, options: RuntimeWidgetLoadOptions) {
         // Find the current app so that we can pull a list of installed widgets from it
-        const appList = (await (await this.fetchClient.fetch(`/application/applicationsByUser/${encodeURIComponent(user.userName)}?pageSize=2000`)).json()).applications;
-        
+        // If Cumulocity can't be reached then fall back to the cached responses, so that cached widgets can still be loaded
+        const {value: appList, cached: offline} = await this.fetchOrCached<IApplication[]>(options.cache, `applicationsByUser:${user.userName}`, async () =>
+            (await (await this.fetchClient.fetch(`/application/applicationsByUser/${encodeURIComponent(user.userName)}?pageSize=2000`)).json()).applications
+        );
+
         // Updated to check for own app builder first
         let app: IApplication & {widgetContextPaths?: string[]} | undefined = appList.find(app => app.contextPath === contextPathFromURL() &&
-        app.availability === 'PRIVATE') ;
+        String(app.availability) === 'PRIVATE') ;
         if (!app) {
             // Own App builder not found. Looking for subscribed one
             app = appList.find(app => app.contextPath === contextPathFromURL());
             if(!app) { throw Error('Could not find current application.');}
         } 
-        const AppRuntimePathList = (await this.invService.list( {pageSize: 2000, query: `type eq app_runtimeContext`})).data;
-        const AppRuntimePath: IAppRuntimeContext & {widgetContextPaths?: string[]} = AppRuntimePathList.find(path => path.appId === app.id);
-        
-        const contextPaths = Array.from(new Set([
-            ...(app && app.widgetContextPaths) || [],
-            ...(AppRuntimePath && AppRuntimePath.widgetContextPaths) || []
-        ]));
-        const jsModules = [];
-        const cleanupWidgetContextPath = [];
-        for (const contextPath of contextPaths) {
-            // Import every widget's importManifest.js
-            // The importManifest is a mapping from exported module name to webpack chunk file
-            if(contextPath && contextPath.length > 0) {
+
+        // Ask each source which widgets it provides, the first source to list a widget decides where it is loaded from
+        const sourceContext: RuntimeWidgetSourceContext = {
+            user,
+            app,
+            appList,
+            offline,
+            fetch: url => this.fetchUrl(url),
+            fetchOrCached: async (key, fetch) => (await this.fetchOrCached(options.cache, key, fetch)).value
+        };
+        this.activeDevServers = options.devMode ? devServerUrls(options.devServers) : [];
+        if (!options.devMode && isDevServerRequested()) {
+            console.warn('Ignoring the widget dev servers, dev mode is off in this application. Load the widgets with the devMode option to use them');
+        }
+        const widgetSources = await this.listSourceWidgets(sourceContext);
+        const contextPaths = Array.from(widgetSources.keys());
+
+        // The app list tells us the active version of each widget's app (so a cached bundle can be checked for freshness without downloading anything)
+        // and the hashes that the widget's files were verified with when it was installed
+        this.cacheEnabled = options.cache;
+        this.isolateInjectors = options.isolateInjectors;
+        this.widgetApps.clear();
+        this.widgetUrls.clear();
+        this.devContextPaths.clear();
+        this.signedContextPaths.clear();
+        this.signingOptions = undefined;
+        widgetSources.forEach(({entry, source}, contextPath) => {
+            const widgetApp = appList.find(app => app.contextPath === contextPath);
+            // Widgets served from a url rather than a hosted app
+            if (entry.url !== undefined) {
+                this.widgetUrls.set(contextPath, entry.url);
+                if (source === this.devServerSource) {
+                    this.devContextPaths.add(contextPath);
+                } else if (widgetApp && activeIntegrityRecord(widgetApp) !== undefined) {
+                    // Don't let an unsigned copy from another source replace a signed widget
+                    this.signedContextPaths.add(contextPath);
+                }
+                return;
+            }
+            if (widgetApp && widgetApp.activeVersionId) {
+                this.widgetApps.set(contextPath, widgetApp);
+            }
+        });
+        if (this.devContextPaths.size > 0) {
+            this.alertService.add({
+                text: `Widget developer mode: ${Array.from(this.devContextPaths).map(contextPath => `${contextPath} (${this.widgetUrls.get(contextPath)})`).join(', ')}`,
+                type: 'warning'
+            });
+        }
+
+        // In lazy mode, widgets that are in the widget index are only registered as placeholders, they are loaded when a dashboard first uses them
+        let lazyContextPaths: string[] = [];
+        if (options.lazy) {
+            // Dev mode widgets are always loaded straight away, so that their changes show up
+            const widgetIndex = Array.from(widgetSources.values())
+                .filter(({source}) => source !== this.devServerSource)
+                .reduce((index, {entry}) => index.concat(entry.widgetIndex || []), [] as RuntimeWidgetIndexEntry[])
+                .filter((entry, i, entries) => entries.findIndex(other => other.id === entry.id) === i);
+            const dynamicComponentService = await this.getDynamicComponentService();
+            widgetIndex.forEach(entry => this.registerLazyWidget(entry, dynamicComponentService));
+            lazyContextPaths = Array.from(new Set(widgetIndex.map(entry => entry.contextPath)));
+        }
+
+        // Check every widget's declared compatibility, and work out the order to load them in (each widget after the widgets it requires)
+        const limit = concurrencyLimit(options.concurrency);
+        const validContextPaths = contextPaths.filter(contextPath => contextPath && contextPath.length > 0 && !lazyContextPaths.includes(contextPath));
+        const c8yJsons = await Promise.all(validContextPaths.map(contextPath => limit(() => {
+            this.startLoadReport(contextPath);
+            return withTimeout(this.fetchWidgetC8yJson(contextPath), options.widgetTimeout, `Timed out after ${options.widgetTimeout}ms`)
+                // Don't hold up the rest of the widgets, the widget's own load will time out too if its app isn't responding
+                .catch(() => undefined);
+        })));
+        const requiredWidgets = new Map<string, string[]>();
+        validContextPaths.forEach((contextPath, i) => {
+            const compatibility = c8yJsons[i] && c8yJsons[i].compatibility;
+            const problems = compatibilityProblems(compatibility, hostVersions());
+            if (problems.length > 0) {
+                this.skipWidget(contextPath, 'incompatible', problems.join('\n'));
+                return;
+            }
+            const rolesProblem = this.checkRequiredRoles(c8yJsons[i]);
+            if (rolesProblem) {
+                // Not an error, so the user isn't alerted
+                this.setLoadStatus(contextPath, 'not-permitted', rolesProblem);
+                return;
+            }
+            requiredWidgets.set(contextPath, (compatibility && compatibility.requiredWidgets) || []);
+        });
+        // Lazy widgets are loaded on demand (along with their own requirements) if an eagerly loaded widget requires them
+        lazyContextPaths.forEach(contextPath => requiredWidgets.set(contextPath, []));
+        const {order: loadOrder, problems} = sortByRequiredWidgets(requiredWidgets);
+        const order = loadOrder.filter(contextPath => !lazyContextPaths.includes(contextPath));
+        problems.forEach((reason, contextPath) => this.skipWidget(contextPath, 'requirement-missing', reason));
+
+        // Load the widgets concurrently, each widget waits for the widgets it requires
+        // Tasks are started in load order, so a widget's requirements are always started before it
+        const loading = new Map<string, Promise<boolean>>();
+        for (const contextPath of order) {
+            loading.set(contextPath, limit(async () => {
+                const requirementsLoaded = await Promise.all(requiredWidgets.get(contextPath).map(required =>
+                    lazyContextPaths.includes(required) ? this.loadLazyWidget(required).then(() => true, () => false) : loading.get(required)
+                ));
+                const failedRequirementIndex = requirementsLoaded.indexOf(false);
+                if (failedRequirementIndex >= 0) {
+                    this.skipWidget(contextPath, 'requirement-missing', `Requires the widget: ${requiredWidgets.get(contextPath)[failedRequirementIndex]}, which failed to load`);
+                    return false;
+                }
+
+                const deadline = {expired: false};
                 try {
-                    await corsImport(`/apps/${contextPath}/importManifest.js?${Date.now()}`);
-                } catch(e) {
-                    if (appList.some(app => app.contextPath === contextPath)) {
-                        console.error(`Unable to find widget manifest: /apps/${contextPath}/importManifest.js\n`, e);
+                    return await withTimeout(
+                        this.loadInstalledWidget(contextPath, appList, deadline),
+                        options.widgetTimeout,
+                        `Timed out after ${options.widgetTimeout}ms`,
+                        () => deadline.expired = true
+                    );
+                } catch (e) {
+                    if (deadline.expired) {
+                        this.skipWidget(contextPath, 'timed-out', e.message);
                     } else {
-                        cleanupWidgetContextPath.push(contextPath);
+                        this.setLoadStatus(contextPath, 'failed', e);
+                        console.error(`Failed to load widget: ${contextPath}\n`, e);
+                        this.alertService.danger('Failed to load a runtime custom widget.', e.message);
                     }
-                    continue;
+                    return false;
                 }
-    
-                // Load the jsModules containing the custom widgets
-                try {
-                    // @ts-ignore
-                    const jsModule = await __webpack_require__.interleaved(`${contextPath}/${contextPath}-CustomWidget`);
-                    jsModules.push(jsModule);
-                } catch (e) {
-                    console.error(`Module: ${contextPath}, did not contain a custom widget\n`, e);
-                    this.alertService.danger('Failed to load a runtime custom widget, it may have been compiled for a different Cumulocity version.', e.message);
-                    continue;
+            }));
+        }
+        await Promise.all(Array.from(loading.values()));
+        this.watchDevWidgets();
+
+        // Drop the cached bundles of widget versions that are no longer active
+        if (options.cache && !offline) {
+            await this.cacheService.pruneBundles(Array.from(this.widgetApps.values()).map(widgetApp => RuntimeWidgetCacheService.bundleKey(widgetApp.id, widgetApp.activeVersionId)));
+        }
+    }
+
+    /**
+     * Every widget source, in priority order: dev servers, sources registered with RUNTIME_WIDGET_SOURCES, then the built-in sources
+     */
+    private widgetSources(): RuntimeWidgetSource[] {
+        return [
+            this.devServerSource,
+            ...this.injector.get(RUNTIME_WIDGET_SOURCES, null) || [],
+            this.hostedApplicationSource,
+            this.inventorySource
+        ];
+    }
+
+    private async listSourceWidgets(context: RuntimeWidgetSourceContext): Promise<Map<string, {entry: RuntimeWidgetSourceEntry, source: RuntimeWidgetSource}>> {
+        const widgets = new Map<string, {entry: RuntimeWidgetSourceEntry, source: RuntimeWidgetSource}>();
+        for (const source of this.widgetSources()) {
+            let entries: RuntimeWidgetSourceEntry[];
+            try {
+                entries = await source.listWidgets(context);
+            } catch (e) {
+                console.error(`Unable to list the widgets of source: ${source.name}\n`, e);
+                this.alertService.danger(`Unable to list the runtime widgets of source: ${source.name}`, e.message);
+                continue;
+            }
+            for (const entry of entries) {
+                const existing = widgets.get(entry.contextPath);
+                if (!existing) {
+                    widgets.set(entry.contextPath, {entry, source});
+                } else if (existing.entry.url === entry.url && !existing.entry.widgetIndex && entry.widgetIndex) {
+                    // Another source may know which widgets the package provides
+                    existing.entry = {...existing.entry, widgetIndex: entry.widgetIndex};
                 }
             }
         }
+        return widgets;
+    }
 
-        // Create a list of all of the ngModules within the jsModules
-        const ngModules: NgModuleRef<unknown>[] = [];
-        for (const jsModule of jsModules) {
-            for (const key of Object.keys(jsModule)) {
-                const exportedObj = jsModule[key];
-                // Check if the exportedObj is an angular module
-                if (exportedObj.hasOwnProperty('__annotations__') && exportedObj.__annotations__.some(annotation => annotation.__proto__.ngMetadataName === "NgModule")) {
+    private async loadInstalledWidget(contextPath: string, appList: IApplication[], deadline: {expired: boolean}): Promise<boolean> {
+        // Import the widget's importManifest.js
+        // The importManifest is a mapping from exported module name to webpack chunk file
+        this.reportPhase(contextPath, 'manifest');
+        try {
+            await this.importManifest(contextPath);
+        } catch(e) {
+            if (isIntegrityError(e)) {
+                this.setLoadStatus(contextPath, 'integrity-failed', e);
+                console.error(`Refused to load widget: ${contextPath}\n`, e);
+                this.alertService.danger(`Refused to load widget: ${contextPath}, its files don't match the files that were verified when it was installed.`, e.message);
+                return false;
+            }
+            this.setLoadStatus(contextPath, 'manifest-missing', e);
+            if (appList.some(app => app.contextPath === contextPath) || this.widgetUrls.has(contextPath)) {
+                console.error(`Unable to find widget manifest: ${this.manifestUrl(contextPath)}\n`, e);
+            } else {
+                // Not removed from the runtime context, the application may just not be visible to this user (or Cumulocity may be unreachable)
+                // Widget admins can remove widgets whose applications have been deleted from Manage Widgets
+                console.warn(`Widget: ${contextPath}, was not loaded, its application is not available to this user\n`, e);
+            }
+            return false;
+        }
+
+        // Load the jsModule containing the custom widgets
+        this.reportPhase(contextPath, 'chunk');
+        let jsModule;
+        try {
+            jsModule = await this.importWidgetChunk(contextPath);
+        } catch (e) {
+            this.setLoadStatus(contextPath, 'chunk-missing', e);
+            console.error(`Module: ${contextPath}, did not contain a custom widget\n`, e);
+            this.alertService.danger('Failed to load a runtime custom widget, it may have been compiled for a different Cumulocity version.', e.message);
+            return false;
+        }
+
+        // Compile the ngModules within the jsModule
+        this.reportPhase(contextPath, 'compile');
+        const ngModules = await this.compileNgModules(contextPath, jsModule);
+        const dynamicComponentService = await this.getDynamicComponentService();
+
+        // The widget took too long, it has already been reported as failed so don't register it
+        if (deadline.expired) {
+            ngModules.forEach(ngModule => ngModule.destroy());
+            return false;
+        }
+
+        // Pull out all of the widgets from those angular modules and add them to cumulocity
+        this.reportPhase(contextPath, 'register');
+        this.registerWidgets(contextPath, ngModules, dynamicComponentService);
+        return this.getLoadStatus(contextPath) === 'loaded';
+    }
+
+    /**
+     * Loads a single widget into the running application, without needing a page reload.
+     * Used after a widget has been installed so that it can be added to a dashboard straight away.
+     * @param contextPath The context path of the widget's hosted application
+     * @returns The ids of the widgets that were registered
+     */
+    async loadWidgetByContextPath(contextPath: string): Promise<string[]> {
+        // Hold back any dashboards that are still resolving their widgets until the new widget is registered
+        // Only do this if the initial load has finished, otherwise we'd signal that loading is complete too early
+        const wasLoaded = this.isLoaded$.value;
+        if (wasLoaded) {
+            this.isLoaded$.next(false);
+        }
+        try {
+            return await this.loadWidgetAndRequirements(contextPath, []);
+        } finally {
+            if (wasLoaded) {
+                this.isLoaded$.next(true);
+            }
+        }
+    }
+
+    private async loadWidgetAndRequirements(contextPath: string, requiredBy: string[]): Promise<string[]> {
+        if (this.loadedWidgets.has(contextPath)) {
+            return this.loadedWidgets.get(contextPath).widgets.map(widget => widget.id);
+        }
+        if (requiredBy.includes(contextPath)) {
+            throw Error(`Circular widget requirement: ${[...requiredBy, contextPath].join(' -> ')}`);
+        }
+        this.startLoadReport(contextPath);
+
+        // Widgets can be loaded (lazily, or by the installer) without loadRuntimeWidgets, so make sure the host's version is known before checking compatibility
+        await this.checkHostVersion();
+        const c8yJson = await this.fetchWidgetC8yJson(contextPath);
+        const compatibility = c8yJson && c8yJson.compatibility;
+        const problems = compatibilityProblems(compatibility, hostVersions());
+        if (problems.length > 0) {
+            this.setLoadStatus(contextPath, 'incompatible', problems.join('\n'));
+            throw Error(`Widget: ${contextPath}, is not compatible with this application: ${problems.join(', ')}`);
+        }
+        const rolesProblem = this.checkRequiredRoles(c8yJson);
+        if (rolesProblem) {
+            this.setLoadStatus(contextPath, 'not-permitted', rolesProblem);
+            throw Error(`Widget: ${contextPath}, ${rolesProblem}`);
+        }
+        for (const required of (compatibility && compatibility.requiredWidgets) || []) {
+            try {
+                await this.loadWidgetAndRequirements(required, [...requiredBy, contextPath]);
+            } catch (e) {
+                this.setLoadStatus(contextPath, 'requirement-missing', `Requires the widget: ${required}, which failed to load`);
+                throw e;
+            }
+        }
+
+        this.reportPhase(contextPath, 'manifest');
+        if (!this.widgetApps.has(contextPath) && !this.widgetUrls.has(contextPath)) {
+            await this.refreshWidgetApp(contextPath);
+        }
+        try {
+            await this.importManifest(contextPath);
+        } catch (e) {
+            if (isIntegrityError(e)) {
+                this.setLoadStatus(contextPath, 'integrity-failed', e);
+                console.error(`Refused to load widget: ${contextPath}\n`, e);
+                throw e;
+            }
+            this.setLoadStatus(contextPath, 'manifest-missing', e);
+            console.error(`Unable to find widget manifest: ${this.manifestUrl(contextPath)}\n`, e);
+            throw Error(`Unable to find widget manifest: ${this.manifestUrl(contextPath)}`);
+        }
+
+        this.reportPhase(contextPath, 'chunk');
+        let jsModule;
+        try {
+            jsModule = await this.importWidgetChunk(contextPath);
+        } catch (e) {
+            this.setLoadStatus(contextPath, 'chunk-missing', e);
+            console.error(`Module: ${contextPath}, did not contain a custom widget\n`, e);
+            throw Error(`Module: ${contextPath}, did not contain a custom widget, it may have been compiled for a different Cumulocity version.`);
+        }
+
+        const ngModules = await this.compileNgModules(contextPath, jsModule);
+        const dynamicComponentService = await this.getDynamicComponentService();
+        return this.registerWidgets(contextPath, ngModules, dynamicComponentService);
+    }
+
+    /**
+     * Unloads a runtime widget from the running application.
+     * Any dashboard currently showing the widget is cleared, and the widget's module is destroyed once none of its widgets remain loaded.
+     * @param id The id of the widget (as given in its DynamicComponentDefinition)
+     */
+    async unloadWidget(id: string) {
+        const contextPath = this.findWidgetContextPath(id);
+        if (contextPath === undefined) {
+            throw Error(`Runtime widget: ${id}, is not loaded`);
+        }
+        const loadedWidget = this.loadedWidgets.get(contextPath);
+        const widget = loadedWidget.widgets.find(widget => widget.id === id);
+
+        // Destroy any rendered instances of the widget before its module is destroyed
+        // Waits for the placeholders to be rendered, so that one can't replace the widget's new version when it is reloaded
+        await Promise.all(Array.from(this.dynamicComponentHosts)
+            .filter(host => host.componentId === id)
+            .map(host => this.renderMissingWidget(host, Error(`Widget: ${id}, has been unloaded`))));
+
+        this.removeDefinition(this.injector.get(DynamicComponentService), widget);
+        this.widgetFactories.delete(id);
+
+        loadedWidget.widgets.splice(loadedWidget.widgets.indexOf(widget), 1);
+        if (loadedWidget.widgets.length === 0) {
+            loadedWidget.ngModules.forEach(ngModule => ngModule.destroy());
+            this.loadedWidgets.delete(contextPath);
+            this.stopDevWatcher(contextPath);
+        }
+    }
+
+    /**
+     * Replaces a loaded widget with the currently deployed version, re-rendering any dashboards that are showing it
+     * @param contextPath The context path of the widget's hosted application
+     * @returns The ids of the widgets that were registered
+     */
+    async reloadWidget(contextPath: string): Promise<string[]> {
+        // Keep watching a dev mode widget's dev server, it is usually what asked for the reload
+        const devWatcher = this.devWatchers.get(contextPath);
+        this.devWatchers.delete(contextPath);
+        try {
+            await this.unloadWidgetsByContextPath(contextPath);
+        } finally {
+            if (devWatcher) {
+                this.devWatchers.set(contextPath, devWatcher);
+            }
+        }
+        // The widget's app is out of date (it has a new active version), it is fetched again when the widget is loaded
+        this.widgetApps.delete(contextPath);
+
+        // Webpack caches modules by id, so evict the old version's modules to make sure the new version is executed
+        // In an interleaved build the module ids are prefixed with the widget's context path, match the whole prefix so that widgets whose context paths contain this one (eg. chart-extra for chart) are left alone
+        // @ts-ignore
+        const moduleCache = __webpack_require__.c;
+        Object.keys(moduleCache)
+            .filter(moduleId => moduleId.startsWith(`${contextPath}/`))
+            .forEach(moduleId => delete moduleCache[moduleId]);
+
+        return await this.loadWidgetByContextPath(contextPath);
+    }
+
+    /**
+     * Unloads every widget provided by a widget's hosted application
+     * @param contextPath The context path of the widget's hosted application
+     */
+    async unloadWidgetsByContextPath(contextPath: string) {
+        if (this.loadedWidgets.has(contextPath)) {
+            for (const widget of this.loadedWidgets.get(contextPath).widgets.slice()) {
+                await this.unloadWidget(widget.id);
+            }
+            // A module that didn't register any widgets won't have been destroyed by unloading them
+            if (this.loadedWidgets.has(contextPath)) {
+                this.loadedWidgets.get(contextPath).ngModules.forEach(ngModule => ngModule.destroy());
+                this.loadedWidgets.delete(contextPath);
+            }
+        }
+        this.stopDevWatcher(contextPath);
+        this.lazyLoads.delete(contextPath);
+        (this.objectUrls.get(contextPath) || []).forEach(url => URL.revokeObjectURL(url));
+        this.objectUrls.delete(contextPath);
+        this.loadReport.delete(contextPath);
+        this.emitLoadReport();
+    }
+
+    /**
+     * The outcome of the most recent attempt to load a widget, or undefined if it hasn't been loaded
+     * @param contextPath The context path of the widget's hosted application
+     */
+    getLoadStatus(contextPath: string): RuntimeWidgetLoadStatus | undefined {
+        return this.loadReport.has(contextPath) ? this.loadReport.get(contextPath).status : undefined;
+    }
+
+    /**
+     * The reason that a widget was not loaded, if known
+     * @param contextPath The context path of the widget's hosted application
+     */
+    getLoadError(contextPath: string): string | undefined {
+        const entry = this.loadReport.get(contextPath);
+        return entry && entry.error ? entry.error.message : undefined;
+    }
+
+    /**
+     * Loads a lazy widget, if it isn't already loaded (or loading)
+     * @param contextPath The context path of the widget's hosted application
+     * @returns The ids of the widgets that were registered
+     */
+    loadLazyWidget(contextPath: string): Promise<string[]> {
+        if (!this.lazyLoads.has(contextPath)) {
+            this.lazyLoads.set(contextPath, this.loadWidgetAndRequirements(contextPath, []).catch(e => {
+                // Allow the load to be retried
+                this.lazyLoads.delete(contextPath);
+                throw e;
+            }));
+        }
+        return this.lazyLoads.get(contextPath);
+    }
+
+    /**
+     * The definitions of the widgets registered by a widget's hosted application
+     * @param contextPath The context path of the widget's hosted application
+     */
+    getWidgetDefinitions(contextPath: string): DynamicComponentDefinition[] {
+        return this.loadedWidgets.has(contextPath) ? this.loadedWidgets.get(contextPath).widgets.slice() : [];
+    }
+
+    private registerLazyWidget(entry: RuntimeWidgetIndexEntry, dynamicComponentService: DynamicComponentService) {
+        if (entry.requiredRoles) {
+            this.widgetRequiredRoles.set(entry.id, entry.requiredRoles);
+        }
+        if (entry.configSchema) {
+            this.widgetConfigSchemas.set(entry.id, entry.configSchema);
+        }
+        // Don't offer widgets that the user isn't allowed to use
+        if (missingRoles(this.userService, this.appStateService.currentUser.value, entry.requiredRoles).length > 0) {
+            return;
+        }
+        // Enough of a definition for the widget to be listed in the "Add widget" picker
+        const placeholder = {
+            id: entry.id,
+            label: entry.label || entry.id,
+            description: entry.description || '',
+            ...entry.previewImage && {previewImage: entry.previewImage},
+            component: LazyRuntimeWidgetPlaceholder,
+            ...(entry.configurable || entry.configSchema) && {configComponent: LazyRuntimeWidgetPlaceholder},
+            data: {},
+            isRuntimeLoaded: true,
+            lazyContextPath: entry.contextPath
+        } as DynamicComponentDefinition;
+        this.lazyPlaceholders.set(entry.id, placeholder);
+        dynamicComponentService.add(placeholder);
+        if (this.getLoadStatus(entry.contextPath) !== 'lazy') {
+            this.setLoadStatus(entry.contextPath, 'lazy');
+        }
+        this.loadReport.get(entry.contextPath).widgetIds.push(entry.id);
+    }
+
+    /**
+     * Sets the action for the "Install widget" button shown in place of widgets that couldn't be loaded
+     */
+    setInstallHandler(installHandler: () => void) {
+        this.installHandler = installHandler;
+    }
+
+    /**
+     * Renders a placeholder in a DynamicComponentComponent whose widget couldn't be loaded
+     * The host's config is not modified, so nothing is lost if the dashboard is saved
+     * @param dynamicComponentHost The DynamicComponentComponent
+     * @param error Why the widget couldn't be loaded (if known)
+     */
+    async renderMissingWidget(dynamicComponentHost: RuntimeWidgetHost, error?: any) {
+        const widgetId: string = dynamicComponentHost.componentId;
+        try {
+            if (!this.missingWidgetFactory) {
+                this.missingWidgetFactory = createNgModule(RuntimeWidgetMissingModule, this.injector, this.compiler)
+                    .then(ngModule => ngModule.componentFactoryResolver.resolveComponentFactory(RuntimeWidgetMissingComponent));
+            }
+            const componentFactory = await this.missingWidgetFactory;
+            dynamicComponentHost.clear();
+            const componentRef = dynamicComponentHost.createComponent(componentFactory);
+            componentRef.instance.widgetId = widgetId;
+            componentRef.instance.error = error !== undefined ? (error.message || String(error)) : this.findWidgetLoadError(widgetId);
+            componentRef.instance.config = dynamicComponentHost.config;
+            componentRef.instance.onInstall = this.installHandler;
+        } catch (e) {
+            // Fall back to the DynamicComponentComponent's own error display
+            dynamicComponentHost.setError(error || e);
+        }
+    }
+
+    private findWidgetLoadError(widgetId: string): string | undefined {
+        const missing = missingRoles(this.userService, this.appStateService.currentUser.value, this.widgetRequiredRoles.get(widgetId));
+        if (missing.length > 0) {
+            return `Requires the roles: ${missing.join(', ')}`;
+        }
+        // Lazy widgets know which contextPath they came from, otherwise look for the load that registered the widget
+        const placeholder = this.lazyPlaceholders.get(widgetId) as any;
+        const entry = placeholder ?
+            this.loadReport.get(placeholder.lazyContextPath) :
+            Array.from(this.loadReport.values()).find(entry => entry.widgetIds.includes(widgetId));
+        return entry && entry.error ? entry.error.message : undefined;
+    }
+
+    /**
+     * Compiles the error boundary that runtime widgets are rendered in (and the generated config form), and routes errors thrown by widgets outside of change detection to the error boundary
+     */
+    private async prepareRenderComponents() {
+        if (this.boundaryFactory) {
+            return;
+        }
+        try {
+            const ngModule = await createNgModule(RuntimeWidgetConfigFormModule, this.injector, this.compiler);
+            this.configFormFactory = ngModule.componentFactoryResolver.resolveComponentFactory(RuntimeWidgetConfigFormComponent);
+        } catch (e) {
+            console.error('Unable to create the runtime widget config form, widgets without a config component can\'t be configured\n', e);
+        }
+        try {
+            const ngModule = await createNgModule(RuntimeWidgetBoundaryModule, this.injector, this.compiler);
+            this.boundaryFactory = ngModule.componentFactoryResolver.resolveComponentFactory(RuntimeWidgetBoundaryComponent);
+        } catch (e) {
+            console.error('Unable to create the runtime widget error boundary, widgets will be rendered without one\n', e);
+            return;
+        }
+
+        // Errors thrown in subscriptions, event handlers, timers etc. go to the application's ErrorHandler
+        // Work out which widget threw them from the chunks in the error's stack
+        const errorHandler = this.injector.get(ErrorHandler, null);
+        if (errorHandler) {
+            const handleError = errorHandler.handleError.bind(errorHandler);
+            errorHandler.handleError = (error: any) => {
+                const contextPath = this.findContextPathInStack(error);
+                if (contextPath !== undefined) {
+                    this.failWidgets(contextPath, error);
+                }
+                handleError(error);
+            };
+        }
+    }
+
+    /**
+     * A child injector for a widget's modules, so that anything the widget provides, or looks up as an ErrorHandler, stays within the widget
+     * @param contextPath The context path of the widget's hosted application
+     */
+    private createWidgetInjector(contextPath: string): Injector {
+        return Injector.create({
+            providers: [
+                {
+                    provide: ErrorHandler,
+                    useValue: {
+                        handleError: (error: any) => this.failWidgets(contextPath, error)
+                    }
+                }
+            ],
+            parent: this.injector,
+            name: `RuntimeWidget:${contextPath}`
+        });
+    }
+
+    /**
+     * Shows an error in place of every rendered widget from a widget's hosted application
+     */
+    private failWidgets(contextPath: string, error: any) {
+        const boundaries = Array.from(this.widgetBoundaries).filter(boundary => boundary.contextPath === contextPath);
+        if (boundaries.length === 0) {
+            this.reportRenderError(contextPath, undefined, error);
+        }
+        // Each boundary reports the error itself
+        boundaries.forEach(boundary => boundary.fail(error));
+    }
+
+    private findContextPathInStack(error: any): string | undefined {
+        const stack: string | undefined = error && typeof error.stack === 'string' ? error.stack : undefined;
+        // @ts-ignore
+        const entryManifest = window.entryManifest || {};
+        if (stack === undefined) {
+            return undefined;
+        }
+        return Array.from(this.loadedWidgets.keys()).find(contextPath =>
+            Object.keys(entryManifest[contextPath] || {})
+                .map(chunk => entryManifest[contextPath][chunk].path)
+                .some(path => typeof path === 'string' && stack.indexOf(path) >= 0)
+        );
+    }
+
+    private findWidgetContextPath(widgetId: string): string | undefined {
+        return Array.from(this.loadedWidgets.keys())
+            .find(contextPath => this.loadedWidgets.get(contextPath).widgets.some(widget => widget.id === widgetId));
+    }
+
+    private reportRenderError(contextPath: string | undefined, widgetId: string | undefined, error: any) {
+        console.error(`Runtime widget: ${widgetId || contextPath}, threw an error\n`, error);
+        if (contextPath === undefined || !this.loadReport.has(contextPath)) {
+            return;
+        }
+        const entry = this.loadReport.get(contextPath);
+        entry.renderErrors = [
+            ...entry.renderErrors || [],
+            {
+                ...widgetId !== undefined && {widgetId},
+                message: error && error.message || String(error),
+                ...error && error.stack && {stack: error.stack},
+                time: Date.now()
+            }
+        ].slice(-MAX_RENDER_ERRORS);
+        this.emitLoadReport();
+    }
+
+    private startLoadReport(contextPath: string) {
+        this.loadReport.set(contextPath, {
+            contextPath,
+            status: 'loading',
+            phase: 'compatibility',
+            started: Date.now(),
+            timings: {},
+            widgetIds: []
+        });
+        this.emitLoadReport();
+    }
+
+    private reportPhase(contextPath: string, phase: RuntimeWidgetLoadPhase) {
+        if (!this.loadReport.has(contextPath)) {
+            this.startLoadReport(contextPath);
+        }
+        const entry = this.loadReport.get(contextPath);
+        this.finishPhase(entry);
+        entry.phase = phase;
+        this.emitLoadReport();
+    }
+
+    private finishPhase(entry: RuntimeWidgetLoadReportEntry) {
+        // Phases are sequential, so a phase's duration is the time since the previous phase finished
+        const phaseStarted = entry.started + Object.keys(entry.timings).reduce((total, phase) => total + entry.timings[phase], 0);
+        if (entry.phase && entry.timings[entry.phase] === undefined) {
+            entry.timings[entry.phase] = Date.now() - phaseStarted;
+        }
+    }
+
+    private setLoadStatus(contextPath: string, status: RuntimeWidgetLoadStatus, error?: any) {
+        if (!this.loadReport.has(contextPath)) {
+            this.startLoadReport(contextPath);
+        }
+        const entry = this.loadReport.get(contextPath);
+        entry.status = status;
+        if (status === 'lazy') {
+            // Nothing has been loaded yet
+            entry.phase = undefined;
+        } else {
+            this.finishPhase(entry);
+            entry.finished = Date.now();
+        }
+        if (error !== undefined) {
+            entry.error = typeof error === 'string' ? {message: error} : {message: error.message, stack: error.stack};
+        }
+        this.emitLoadReport();
+    }
+
+    private emitLoadReport() {
+        this.loadReport$.next(Array.from(this.loadReport.values()));
+    }
+
+    private skipWidget(contextPath: string, status: RuntimeWidgetLoadStatus, reason: string) {
+        this.setLoadStatus(contextPath, status, reason);
+        console.warn(`Skipped loading widget: ${contextPath}\n`, reason);
+        this.alertService.warning(`Widget: ${contextPath}, was not loaded`, reason);
+    }
+
+    private async fetchWidgetC8yJson(contextPath: string): Promise<RuntimeWidgetC8yJson | undefined> {
+        // Widgets without a cumulocity.json, or without a compatibility block, are assumed to be compatible
+        try {
+            const widgetUrl = this.widgetUrls.get(contextPath);
+            const response = widgetUrl !== undefined ?
+                await this.fetchUrl(`${widgetUrl}/cumulocity.json?${Date.now()}`) :
+                await this.fetchClient.fetch(`/apps/${contextPath}/cumulocity.json?${Date.now()}`);
+            if (response.status !== 200) {
+                return undefined;
+            }
+            return await response.json();
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Records the roles needed by each of the widget's declared widgets
+     * @returns Why the user can't use any of the widgets, or undefined if they can use them
+     */
+    private checkRequiredRoles(c8yJson: RuntimeWidgetC8yJson | undefined): string | undefined {
+        if (!c8yJson) {
+            return undefined;
+        }
+        if (Array.isArray(c8yJson.widgets)) {
+            c8yJson.widgets
+                .filter(widget => widget.requiredRoles)
+                .forEach(widget => this.widgetRequiredRoles.set(widget.id, widget.requiredRoles));
+            c8yJson.widgets
+                .filter(widget => widget.configSchema)
+                .forEach(widget => this.widgetConfigSchemas.set(widget.id, widget.configSchema));
+        }
+        const missing = missingRoles(this.userService, this.appStateService.currentUser.value, c8yJson.requiredRoles);
+        return missing.length > 0 ? `Requires the roles: ${missing.join(', ')}` : undefined;
+    }
+
+    private removeDefinition(dynamicComponentService: DynamicComponentService, widget: DynamicComponentDefinition) {
+        this.hostAdapter.removeDefinition(dynamicComponentService, widget);
+    }
+
+    private manifestUrl(contextPath: string): string {
+        const widgetUrl = this.widgetUrls.get(contextPath);
+        return widgetUrl !== undefined ? `${widgetUrl}/importManifest.js` : `/apps/${contextPath}/importManifest.js`;
+    }
+
+    private async importManifest(contextPath: string) {
+        const widgetUrl = this.widgetUrls.get(contextPath);
+        if (widgetUrl !== undefined) {
+            // Dev mode widgets are never signed, dev mode is only on if the application asks for it
+            const integrity = this.devContextPaths.has(contextPath) ? undefined : await this.urlWidgetIntegrity(contextPath, widgetUrl);
+            if (integrity) {
+                await this.importVerifiedFromUrl(contextPath, widgetUrl, integrity);
+            } else {
+                await this.importManifestFromUrl(contextPath, widgetUrl);
+            }
+            return;
+        }
+        const widgetApp = this.widgetApps.get(contextPath);
+        const integrity = widgetApp ? activeIntegrityRecord(widgetApp) : undefined;
+        if (integrity === null) {
+            throw integrityError(`The active binary of widget: ${contextPath}, has not been verified, it may have been replaced outside of the widget installer`);
+        }
+        // Verified widgets are always loaded from a bundle, so that their files can be checked before they are executed
+        if (widgetApp && (this.cacheEnabled || integrity)) {
+            try {
+                await this.importBundle(contextPath, widgetApp, integrity);
+                return;
+            } catch (e) {
+                if (integrity) {
+                    throw e;
+                }
+                console.warn(`Failed to load widget: ${contextPath}, from the cache, downloading it instead\n`, e);
+            }
+        }
+        await corsImport(`/apps/${contextPath}/importManifest.js?${Date.now()}`);
+    }
+
+    private async importManifestFromUrl(contextPath: string, widgetUrl: string) {
+        await corsImport(`${widgetUrl}/importManifest.js?${Date.now()}`);
+        const manifest = (window as any).entryManifest && (window as any).entryManifest[contextPath];
+        if (!manifest) {
+            throw Error(`The importManifest from: ${widgetUrl}, did not register any chunks for: ${contextPath}`);
+        }
+        // Chunks are served alongside the importManifest, whatever public path the widget was built with
+        const baseUrl = new URL(`${widgetUrl}/`, window.location.href);
+        Object.keys(manifest).forEach(chunkName => {
+            const path: string = manifest[chunkName].path;
+            manifest[chunkName] = {...manifest[chunkName], path: /^[a-z]+:/i.test(path) ? path : new URL(pathInWidgetZip(contextPath, path), baseUrl).href};
+        });
+    }
+
+    /**
+     * Verifies the signature.json served alongside a widget's importManifest.js
+     * A widget served from a url must be signed if the tenant requires signatures, or if it replaces a signed hosted widget
+     * @returns The verified hashes of the widget's files, or undefined if the widget isn't signed (and doesn't need to be)
+     */
+    private async urlWidgetIntegrity(contextPath: string, widgetUrl: string): Promise<RuntimeWidgetIntegrityRecord | undefined> {
+        if (!this.signingOptions) {
+            this.signingOptions = readSigningOptions(url => this.fetchClient.fetch(url));
+        }
+        const {trustedKeys, requireSignature} = await this.signingOptions;
+        const mustVerify = requireSignature || this.signedContextPaths.has(contextPath);
+        const reason = requireSignature ? 'this tenant only accepts signed widgets' : 'it replaces a signed widget';
+
+        let signature: any;
+        try {
+            const response = await this.fetchUrl(`${widgetUrl}/${SIGNATURE_FILE}?${Date.now()}`);
+            signature = response.status === 200 ? await response.json() : undefined;
+        } catch (e) {
+            signature = undefined;
+        }
+        if (!isSignature(signature)) {
+            if (mustVerify) {
+                throw integrityError(`Widget: ${contextPath}, served from: ${widgetUrl}, is not signed (no valid ${SIGNATURE_FILE}), ${reason}`);
+            }
+            return undefined;
+        }
+        if (trustedKeys.length === 0) {
+            if (mustVerify) {
+                throw integrityError(`Widget: ${contextPath}, served from: ${widgetUrl}, is signed, but no trusted keys are configured for this tenant`);
+            }
+            console.warn(`Widget: ${contextPath}, is signed, but no trusted keys are configured for this tenant so the signature was not checked`);
+            return undefined;
+        }
+        const trustedKey = await verifySignature(signature, trustedKeys);
+        if (!trustedKey) {
+            throw integrityError(`The signature of widget: ${contextPath}, served from: ${widgetUrl}, is not valid for any of this tenant's trusted keys`);
+        }
+        const files: {[path: string]: string} = {};
+        Object.keys(signature.files).forEach(path => files[path] = signature.files[path].toLowerCase());
+        return {files, keyId: trustedKey.id, verified: new Date().toISOString()};
+    }
+
+    /**
+     * Loads a signed widget from a url, its files are checked against their verified hashes before they are executed
+     */
+    private async importVerifiedFromUrl(contextPath: string, widgetUrl: string, integrity: RuntimeWidgetIntegrityRecord) {
+        const manifestResponse = await this.fetchUrl(`${widgetUrl}/importManifest.js?${Date.now()}`);
+        if (manifestResponse.status !== 200) {
+            throw Error(`Failed to download: ${widgetUrl}/importManifest.js, status: ${manifestResponse.status}`);
+        }
+        const manifestFile = await manifestResponse.arrayBuffer();
+        if (await sha256Hex(manifestFile) !== integrity.files['importManifest.js']) {
+            throw integrityError(`importManifest.js of widget: ${contextPath}, served from: ${widgetUrl}, does not match its signed hash`);
+        }
+        const manifestUrl = URL.createObjectURL(new Blob([manifestFile], {type: 'application/javascript'}));
+        try {
+            await corsImport(manifestUrl);
+        } finally {
+            URL.revokeObjectURL(manifestUrl);
+        }
+        const manifest = (window as any).entryManifest && (window as any).entryManifest[contextPath];
+        if (!manifest) {
+            throw Error(`The importManifest from: ${widgetUrl}, did not register any chunks for: ${contextPath}`);
+        }
+
+        // Chunks are served alongside the importManifest, a chunk with an absolute path isn't in the signed files so fails verification
+        const baseUrl = new URL(`${widgetUrl}/`, window.location.href);
+        const files = {};
+        await Promise.all(Object.keys(manifest).map(async chunkName => {
+            const chunkUrl = new URL(pathInWidgetZip(contextPath, manifest[chunkName].path), baseUrl).href;
+            const response = await this.fetchUrl(chunkUrl);
+            if (response.status !== 200) {
+                throw Error(`Failed to download: ${chunkUrl}, status: ${response.status}`);
+            }
+            files[chunkName] = await response.arrayBuffer();
+        }));
+        const bundle = {manifest: {...manifest}, files};
+        await this.verifyBundle(contextPath, bundle, integrity);
+        this.installBundle(contextPath, bundle);
+    }
+
+    private fetchUrl(url: string): Promise<IFetchResponse> {
+        const resolved = new URL(url, window.location.href);
+        // Requests to Cumulocity need the user's credentials
+        return resolved.origin === window.location.origin ?
+            this.fetchClient.fetch(resolved.pathname + resolved.search) :
+            fetch(resolved.href);
+    }
+
+    /**
+     * Reloads each dev mode widget whenever its dev server rebuilds it
+     */
+    private watchDevWidgets() {
+        this.devContextPaths.forEach(contextPath => {
+            const devServerUrl = this.widgetUrls.get(contextPath);
+            if (this.devWatchers.has(contextPath)) {
+                return;
+            }
+            const manifest = (window as any).entryManifest && (window as any).entryManifest[contextPath];
+            const chunk = manifest && (manifest[`${contextPath}-CustomWidget`] || manifest[`${contextPath}-CustomWidget.js`]);
+            // Reloads are queued, so that a burst of rebuilds doesn't load the widget several times at once
+            let reloading = Promise.resolve();
+            this.devWatchers.set(contextPath, watchDevServer(devServerUrl, chunk ? chunk.path : `${devServerUrl}/importManifest.js`, () => {
+                reloading = reloading.then(async () => {
                     try {
-                        // Compile the angular module
-                        const ngModuleFactory = await this.compiler.compileModuleAsync(exportedObj);
-                        // Create an instance of the module
-                        const ngModule = ngModuleFactory.create(this.injector);
-                        ngModules.push(ngModule);
-                    } catch(e) {
-                        console.error(`Failed to compile widgets in module:`, jsModule, '\n', e);
-                        this.alertService.danger('Failed to load runtime custom widget, it may have been compiled for a different Cumulocity version.', e.message);
-                        continue;
+                        await this.reloadWidget(contextPath);
+                        console.info(`Reloaded widget: ${contextPath}, from the dev server: ${devServerUrl}`);
+                    } catch (e) {
+                        console.error(`Failed to reload widget: ${contextPath}\n`, e);
+                        this.alertService.danger(`Failed to reload widget: ${contextPath}`, e.message);
                     }
+                });
+            }));
+        });
+    }
+
+    private stopDevWatcher(contextPath: string) {
+        const stop = this.devWatchers.get(contextPath);
+        if (stop) {
+            stop();
+            this.devWatchers.delete(contextPath);
+        }
+    }
+
+    private async importBundle(contextPath: string, widgetApp: IApplication, integrity: RuntimeWidgetIntegrityRecord | undefined) {
+        const key = RuntimeWidgetCacheService.bundleKey(widgetApp.id, widgetApp.activeVersionId);
+        let bundle = this.cacheEnabled ? await this.cacheService.getBundle(key) : undefined;
+        if (!bundle) {
+            bundle = await this.downloadBundle(contextPath, widgetApp, key, integrity);
+            if (this.cacheEnabled) {
+                await this.cacheService.putBundle(bundle);
+            }
+        }
+        if (integrity) {
+            await this.verifyBundle(contextPath, bundle, integrity);
+        }
+        this.installBundle(contextPath, bundle);
+    }
+
+    private installBundle(contextPath: string, bundle: Pick<RuntimeWidgetBundle, 'manifest' | 'files'>) {
+        // webpack-external-import loads chunks from the paths in window.entryManifest, so point them at the downloaded files
+        const objectUrls = this.objectUrls.get(contextPath) || [];
+        const manifest = {};
+        Object.keys(bundle.manifest).forEach(chunkName => {
+            const path = bundle.manifest[chunkName].path;
+            const url = URL.createObjectURL(new Blob([bundle.files[chunkName]], {type: /\.css$/.test(path) ? 'text/css' : 'application/javascript'}));
+            objectUrls.push(url);
+            manifest[chunkName] = {...bundle.manifest[chunkName], path: url};
+        });
+        this.objectUrls.set(contextPath, objectUrls);
+        const global = window as any;
+        if (!global.entryManifest) {
+            global.entryManifest = {};
+        }
+        global.entryManifest[contextPath] = manifest;
+    }
+
+    private async downloadBundle(contextPath: string, widgetApp: IApplication, key: string, integrity: RuntimeWidgetIntegrityRecord | undefined): Promise<RuntimeWidgetBundle> {
+        // The importManifest registers itself in window.entryManifest
+        if (integrity) {
+            // Check the importManifest before executing it
+            const response = await this.fetchClient.fetch(`/apps/${contextPath}/importManifest.js?${Date.now()}`);
+            if (response.status !== 200) {
+                throw Error(`Failed to download: /apps/${contextPath}/importManifest.js, status: ${response.status}`);
+            }
+            const manifestFile = await response.arrayBuffer();
+            if (await sha256Hex(manifestFile) !== integrity.files['importManifest.js']) {
+                throw integrityError(`importManifest.js of widget: ${contextPath}, does not match the verified hash`);
+            }
+            const manifestUrl = URL.createObjectURL(new Blob([manifestFile], {type: 'application/javascript'}));
+            try {
+                await corsImport(manifestUrl);
+            } finally {
+                URL.revokeObjectURL(manifestUrl);
+            }
+        } else {
+            await corsImport(`/apps/${contextPath}/importManifest.js?${Date.now()}`);
+        }
+        const manifest = (window as any).entryManifest && (window as any).entryManifest[contextPath];
+        if (!manifest) {
+            throw Error(`The importManifest of: ${contextPath}, did not register any chunks`);
+        }
+        const files = {};
+        await Promise.all(Object.keys(manifest).map(async chunkName => {
+            const response = await this.fetchClient.fetch(manifest[chunkName].path);
+            if (response.status !== 200) {
+                throw Error(`Failed to download: ${manifest[chunkName].path}, status: ${response.status}`);
+            }
+            files[chunkName] = await response.arrayBuffer();
+        }));
+        return {
+            key,
+            appId: String(widgetApp.id),
+            activeVersionId: String(widgetApp.activeVersionId),
+            contextPath,
+            manifest: {...manifest},
+            files,
+            cached: Date.now()
+        };
+    }
+
+    private async verifyBundle(contextPath: string, bundle: Pick<RuntimeWidgetBundle, 'manifest' | 'files'>, integrity: RuntimeWidgetIntegrityRecord) {
+        for (const chunkName of Object.keys(bundle.manifest)) {
+            const path = pathInWidgetZip(contextPath, bundle.manifest[chunkName].path);
+            const expectedHash = integrity.files[path];
+            if (expectedHash === undefined) {
+                throw integrityError(`${path}, of widget: ${contextPath}, is not covered by the widget's signature`);
+            }
+            if (await sha256Hex(bundle.files[chunkName]) !== expectedHash) {
+                throw integrityError(`${path}, of widget: ${contextPath}, does not match the verified hash`);
+            }
+        }
+    }
+
+    private async refreshWidgetApp(contextPath: string) {
+        const user = this.appStateService.currentUser.value;
+        if (!user) {
+            return;
+        }
+        try {
+            const appList: IApplication[] = (await (await this.fetchClient.fetch(`/application/applicationsByUser/${encodeURIComponent(user.userName)}?pageSize=2000`)).json()).applications;
+            const widgetApp = appList.find(app => app.contextPath === contextPath);
+            if (widgetApp && widgetApp.activeVersionId) {
+                this.widgetApps.set(contextPath, widgetApp);
+            }
+        } catch (e) {
+            console.warn(`Unable to find the application of widget: ${contextPath}\n`, e);
+        }
+    }
+
+    private async fetchOrCached<T>(cache: boolean, key: string, fetch: () => Promise<T>): Promise<{value: T, cached: boolean}> {
+        try {
+            const value = await fetch();
+            if (cache) {
+                await this.cacheService.putRegistryEntry(key, value);
+            }
+            return {value, cached: false};
+        } catch (e) {
+            const cachedValue = cache ? await this.cacheService.getRegistryEntry<T>(key) : undefined;
+            if (cachedValue === undefined) {
+                throw e;
+            }
+            console.warn(`Unable to reach Cumulocity, using the cached: ${key}\n`, e);
+            return {value: cachedValue, cached: true};
+        }
+    }
+
+    private async importWidgetChunk(contextPath: string): Promise<any> {
+        const chunkName = `${contextPath}-CustomWidget`;
+        if (this.installedChunks.has(contextPath)) {
+            // Webpack only loads a chunk once, so load the chunk's new version ourselves: its modules replace the old ones
+            const manifest = (window as any).entryManifest[contextPath];
+            const chunk = manifest[chunkName] || manifest[`${chunkName}.js`];
+            if (!chunk) {
+                throw Error(`webpack-external-import: unable to find ${chunkName}`);
+            }
+            await corsImport(chunk.path.startsWith('blob:') ? chunk.path : `${chunk.path}${chunk.path.includes('?') ? '&' : '?'}${Date.now()}`);
+            // @ts-ignore
+            return __webpack_require__(chunkName);
+        }
+        // @ts-ignore
+        const jsModule = await __webpack_require__.interleaved(`${contextPath}/${chunkName}`);
+        this.installedChunks.add(contextPath);
+        return jsModule;
+    }
+
+    private async compileNgModules(contextPath: string, jsModule: any): Promise<NgModuleRef<unknown>[]> {
+        const ngModules: NgModuleRef<unknown>[] = [];
+        for (const key of Object.keys(jsModule)) {
+            const exportedObj = jsModule[key];
+            // Check if the exportedObj is an angular module, either View Engine or Ivy compiled
+            if (ngModuleFormat(exportedObj) !== undefined) {
+                try {
+                    // Create an instance of the module (compiling it first if it is a View Engine module)
+                    const ngModule = await createNgModule(exportedObj, this.isolateInjectors ? this.createWidgetInjector(contextPath) : this.injector, this.compiler);
+                    ngModules.push(ngModule);
+                } catch(e) {
+                    this.setLoadStatus(contextPath, 'compile-failed', e);
+                    console.error(`Failed to compile widgets in module:`, jsModule, '\n', e);
+                    this.alertService.danger('Failed to load runtime custom widget, it may have been compiled for a different Cumulocity version.', e.message);
+                    continue;
                 }
             }
         }
+        return ngModules;
+    }
 
+    private async getDynamicComponentService(): Promise<DynamicComponentService> {
         // Have to wait until after angularJS is loaded to get the DynamicComponentService so we can't have it injected into the constructor, instead get from the injector
         const dynamicComponentService = this.injector.get(DynamicComponentService);
 
@@ -182,94 +1476,95 @@ export class RuntimeWidgetLoaderService {
         // It is much easier to check static widgets have loaded (they all load at once) before we start loading the runtime widgets
         // Note: We don't have to wait for the state to reach a fixed size, it is enough for the first item to enter because:
         //  All static widgets load in the same event loop cycle - promise will resolve in the next cycle
-        await dynamicComponentService.state$.pipe(filter(state => state.size > 0), first()).toPromise()
+        await dynamicComponentService.state$.pipe(filter(state => state.size > 0), first()).toPromise();
 
-        // Pull out all of the widgets from those angular modules and add them to cumulocity
+        return dynamicComponentService;
+    }
+
+    private registerWidgets(contextPath: string, ngModules: NgModuleRef<unknown>[], dynamicComponentService: DynamicComponentService): string[] {
+        const registeredWidgets: DynamicComponentDefinition[] = [];
         for (const ngModule of ngModules) {
             const widgets = ngModule.injector.get<(DynamicComponentDefinition | DynamicComponentDefinition[])[]>(HOOK_COMPONENTS) || [];
 
             // Add the widget components into cumulocity
             for (const widget of widgets) {
-                if (Array.isArray(widget)) {
-                    for (const singleWidget of widget) {
-                        this.loadWidget(ngModule, dynamicComponentService, singleWidget);
+                for (const singleWidget of (Array.isArray(widget) ? widget : [widget])) {
+                    // Widgets that the user isn't allowed to use aren't registered, so they can't be added to a dashboard
+                    if (missingRoles(this.userService, this.appStateService.currentUser.value, this.widgetRequiredRoles.get(singleWidget.id)).length > 0) {
+                        continue;
+                    }
+                    if (this.loadWidget(ngModule, dynamicComponentService, singleWidget)) {
+                        registeredWidgets.push(singleWidget);
                     }
-                } else {
-                    this.loadWidget(ngModule, dynamicComponentService, widget);
                 }
             }
         }
-
-        this.alertService.remove(alert);
-        this.isLoaded$.next(true);
-
-        // Auto Clean deleted widget from runtime context
-        let isContextPathChanged = false;
-        cleanupWidgetContextPath.forEach(contextPath => {
-            if(AppRuntimePath && AppRuntimePath.widgetContextPaths) {
-                const contextPathIndex = AppRuntimePath.widgetContextPaths.indexOf(contextPath);
-                if(contextPathIndex >= 0){
-                    AppRuntimePath.widgetContextPaths.splice(contextPathIndex, 1);
-                    isContextPathChanged = true;
-                }
-            }
-        });
-        if(isContextPathChanged){
-            let widgetContextPaths = [];
-            widgetContextPaths = [...AppRuntimePath.widgetContextPaths];
-            await this.invService.update({
-                id: AppRuntimePath.id,
-                widgetContextPaths
-            })
+        this.loadedWidgets.set(contextPath, {ngModules, widgets: registeredWidgets});
+        if (this.loadReport.has(contextPath)) {
+            this.loadReport.get(contextPath).widgetIds = registeredWidgets.map(widget => widget.id);
         }
-        
+        if (this.getLoadStatus(contextPath) !== 'compile-failed') {
+            this.setLoadStatus(contextPath, 'loaded');
+        }
+        return registeredWidgets.map(widget => widget.id);
     }
 
-    loadWidget(ngModule: NgModuleRef<unknown>, dynamicComponentService: DynamicComponentService, widget: DynamicComponentDefinition) {
+    loadWidget(ngModule: NgModuleRef<unknown>, dynamicComponentService: DynamicComponentService, widget: DynamicComponentDefinition): boolean {
         (widget as any).isRuntimeLoaded = true;
 
         try {
+            const configSchema = configSchemaOf(widget) || this.widgetConfigSchemas.get(widget.id);
+            const schemaProblems = configSchema ? configSchemaProblems(configSchema) : [];
+            if (schemaProblems.length > 0) {
+                // noinspection ExceptionCaughtLocallyJS
+                throw Error(`Widget: ${widget.id}, has an invalid config schema:\n${schemaProblems.join('\n')}`);
+            }
+            // The dashboard only offers to configure widgets that have a config component
+            if (configSchema && !widget.configComponent) {
+                widget.configComponent = GeneratedConfigFormPlaceholder;
+            }
             this.widgetFactories.set(widget.id, {
                 componentFactory: ngModule.componentFactoryResolver.resolveComponentFactory(widget.component),
-                ...widget.configComponent && {configComponentFactory: ngModule.componentFactoryResolver.resolveComponentFactory(widget.configComponent)},
+                ...widget.configComponent && widget.configComponent !== GeneratedConfigFormPlaceholder && {configComponentFactory: ngModule.componentFactoryResolver.resolveComponentFactory(widget.configComponent)},
+                ...configSchema && {configSchema},
                 injector: ngModule.injector
             });
 
+            // Replace the placeholder if this is a lazy widget
+            if (this.lazyPlaceholders.has(widget.id)) {
+                this.removeDefinition(dynamicComponentService, this.lazyPlaceholders.get(widget.id));
+                this.lazyPlaceholders.delete(widget.id);
+            }
             dynamicComponentService.add(widget);
+            this.widgetRegistered$.next(widget.id);
+            return true;
         } catch (e) {
             console.error(`Failed to load runtime widget:`, widget, '\n', e);
             this.alertService.danger('Failed to load runtime custom widget, it may have been compiled for a different Cumulocity version.', e.message);
+            return false;
         }
     }
 
     /**
      * Remove a widget from application. Widget will not be deleted from Cumulocity but removed from given Application
      * Widget can be uninstall paremenently from Administration App
-     * @param widgetFile
-     * @param onUpdate
-     */    
-     async removeWidgetFromApp(appId:any, contextPath: string) {
-        const AppRuntimePaths = (await this.invService.list( {pageSize: 2000, query: `( type eq app_runtimeContext and appId eq '${appId}' `})).data;
-        if(AppRuntimePaths && AppRuntimePaths.length > 0) {
-            const appRuntimePath = AppRuntimePaths[0];
-            if(appRuntimePath && appRuntimePath.widgetContextPaths) {
-                const contextPathIndex = appRuntimePath.widgetContextPaths.indexOf(contextPath);
-                if(contextPathIndex >= 0){
-                    let widgetContextPaths = [];
-                    appRuntimePath.widgetContextPaths.splice(contextPathIndex, 1);
-                    widgetContextPaths = [...appRuntimePath.widgetContextPaths];
-                    await this.invService.update({
-                        id: appRuntimePath.id,
-                        widgetContextPaths
-                    })
-                }
-            }
-        }    
+     * @param appId The id of the application to remove the widget from
+     * @param contextPath The context path of the widget's hosted application
+     * @throws If the widget isn't installed in the application, or is listed in a subscribed application itself (which can't be changed)
+     */
+    async removeWidgetFromApp(appId: string, contextPath: string) {
+        // The widget may be listed in the application itself (if it was installed before the app_runtimeContext), it would still be loaded from there
+        // This is done first as it fails for subscribed applications, which leaves the application unchanged
+        const inApp = await this.runtimeContextRepository.removeLegacyWidget(appId, contextPath);
+        const AppRuntimePath = await this.runtimeContextRepository.find(appId);
+        const inRuntimeContext = !!AppRuntimePath && !!AppRuntimePath.widgetContextPaths && AppRuntimePath.widgetContextPaths.includes(contextPath);
+        if (inRuntimeContext) {
+            await this.runtimeContextRepository.update(appId, runtimeContext => ({
+                widgetContextPaths: (runtimeContext.widgetContextPaths || []).filter(widgetContextPath => widgetContextPath !== contextPath)
+            }));
+        }
+        if (!inApp && !inRuntimeContext) {
+            throw Error(`Widget: ${contextPath}, is not installed in the application`);
+        }
     }
 }
-export interface IAppRuntimeContext {
-    id?: any;
-    widgetContextPaths?: any;
-    type?: string;
-    appId?: string;
-}
\ No newline at end of file
@@ -0,0 +1,64 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {Component, Injector, NgModule} from "@angular/core";
+import {AppStateService, CommonModule} from "@c8y/ngx-components";
+import {UserService} from "@c8y/client";
+import {missingRoles, WIDGET_ADMIN_ROLES} from "./runtime-widget-roles";
+
+/**
+ * Shown in place of a runtime widget that couldn't be loaded (or has been uninstalled)
+ * The widget's config is left untouched, so the widget works again once it has been reinstalled
+ */
+@Component({
+    selector: 'c8y-runtime-widget-missing',
+    template: `
+        <div class="text-center" style="padding: 16px;">
+            <div style="font-size: 36px;" class="text-muted">
+                <i c8yIcon="puzzle-piece"></i>
+            </div>
+            <p><b>Widget unavailable</b></p>
+            <p class="text-muted">{{widgetId}}</p>
+            <p class="text-danger small" style="white-space: pre-line;" *ngIf="error">{{error}}</p>
+            <p class="text-muted small" *ngIf="!error">The widget may have failed to load, or may have been uninstalled.</p>
+            <button class="btn btn-primary btn-sm" *ngIf="onInstall && canInstall" (click)="onInstall()">
+                <i c8yIcon="upload"></i> Install widget
+            </button>
+        </div>
+    `
+})
+export class RuntimeWidgetMissingComponent {
+    widgetId: string;
+    error?: string;
+    config: any;
+    onInstall?: () => void;
+    canInstall: boolean = false;
+
+    constructor(appStateService: AppStateService, injector: Injector) {
+        // Installing a widget requires application upload rights
+        this.canInstall = missingRoles(injector.get(UserService), appStateService.currentUser.value, WIDGET_ADMIN_ROLES).length === 0;
+    }
+}
+
+// Compiled at runtime by the RuntimeWidgetLoaderService, so that apps don't need to import anything extra
+@NgModule({
+    declarations: [RuntimeWidgetMissingComponent],
+    imports: [CommonModule],
+    entryComponents: [RuntimeWidgetMissingComponent]
+})
+export class RuntimeWidgetMissingModule {}
@@ -0,0 +1,75 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import * as ngCore from "@angular/core";
+import {Compiler, Injector, NgModuleRef, Type} from "@angular/core";
+
+// How an angular module was compiled
+export type NgModuleFormat = 'view-engine' | 'ivy';
+
+/**
+ * Works out how an exported object was compiled
+ * @returns undefined if the object isn't an angular module
+ */
+export function ngModuleFormat(exportedObj: any): NgModuleFormat | undefined {
+    if (typeof exportedObj !== 'function') {
+        return undefined;
+    }
+    // Ivy compiled modules (and modules decorated using an Ivy @angular/core) have a static module definition
+    if (exportedObj.hasOwnProperty('ɵmod') && exportedObj.hasOwnProperty('ɵinj')) {
+        return 'ivy';
+    }
+    if (exportedObj.hasOwnProperty('__annotations__') && exportedObj.__annotations__.some(annotation => annotation.__proto__.ngMetadataName === "NgModule")) {
+        return 'view-engine';
+    }
+    return undefined;
+}
+
+/**
+ * Whether the host application's angular is able to create Ivy modules
+ */
+export function isIvyHost(): boolean {
+    const core = ngCore as any;
+    return typeof core.createNgModule === 'function' || typeof core.createNgModuleRef === 'function' || core.ɵivyEnabled === true;
+}
+
+/**
+ * Creates an instance of an angular module, in whichever way both the module's format and the host application's angular support
+ * Ivy modules are created without the JIT compiler where possible, View Engine modules are compiled with it
+ * @param moduleType
+ * @param parentInjector
+ * @param compiler Needed for View Engine modules, and Ivy modules in Ivy versions of angular that don't have createNgModule/createNgModuleRef
+ */
+export async function createNgModule<T>(moduleType: Type<T>, parentInjector: Injector, compiler?: Compiler): Promise<NgModuleRef<T>> {
+    const core = ngCore as any;
+    if (ngModuleFormat(moduleType) === 'ivy') {
+        if (!isIvyHost()) {
+            throw Error('The module was compiled with Ivy, but this application uses View Engine (Angular 8 or earlier)');
+        }
+        // Angular 14 renamed createNgModuleRef to createNgModule
+        const create: (moduleType: Type<T>, parentInjector: Injector) => NgModuleRef<T> = core.createNgModule || core.createNgModuleRef;
+        if (create) {
+            return create(moduleType, parentInjector);
+        }
+    }
+    if (!compiler) {
+        throw Error('Unable to create the module, the angular compiler is not available');
+    }
+    const ngModuleFactory = await compiler.compileModuleAsync(moduleType);
+    return ngModuleFactory.create(parentInjector);
+}
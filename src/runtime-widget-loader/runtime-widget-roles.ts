@@ -0,0 +1,29 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {IUser, UserService} from "@c8y/client";
+
+// Installing and managing widgets deploys applications and edits the app_runtimeContext inventory objects
+export const WIDGET_ADMIN_ROLES = ['ROLE_APPLICATION_MANAGEMENT_ADMIN', 'ROLE_INVENTORY_ADMIN'];
+
+/**
+ * The roles (from a widget's requiredRoles) that the user doesn't have
+ */
+export function missingRoles(userService: UserService, user: IUser | null | undefined, requiredRoles: string[] | undefined): string[] {
+    return (requiredRoles || []).filter(role => !user || !userService.hasRole(user, role));
+}
@@ -0,0 +1,62 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {InjectionToken} from "@angular/core";
+import {IApplication, IFetchResponse, IUser} from "@c8y/client";
+import {RuntimeWidgetIndexEntry} from "./runtime-widget-index";
+
+/**
+ * A widget package that a source provides to the current application
+ */
+export interface RuntimeWidgetSourceEntry {
+    contextPath: string;
+    // Where the widget's cumulocity.json and importManifest.js are served from, the widget's chunks are resolved relative to it
+    // Omitted for widgets deployed as Cumulocity hosted applications, which are served from /apps/<contextPath>/
+    url?: string;
+    // The widgets that the package provides, so that it can be loaded lazily
+    widgetIndex?: RuntimeWidgetIndexEntry[];
+}
+
+/**
+ * What a source is given when it is asked for its widgets
+ */
+export interface RuntimeWidgetSourceContext {
+    user: IUser;
+    // The application that the widgets are being loaded into
+    app: IApplication;
+    // The applications available to the user
+    appList: IApplication[];
+    // Whether Cumulocity can't be reached (the app list is from the cache)
+    offline: boolean;
+    // Fetches a url, Cumulocity paths (starting with '/') are fetched with the user's credentials
+    fetch(url: string): Promise<IFetchResponse>;
+    // Fetches a value, keeping a copy to fall back to when Cumulocity can't be reached (if the loader's cache is enabled)
+    fetchOrCached<T>(key: string, fetch: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Provides widgets to the RuntimeWidgetLoaderService
+ * Register additional sources with the RUNTIME_WIDGET_SOURCES token, eg:
+ * {provide: RUNTIME_WIDGET_SOURCES, useValue: new CatalogueWidgetSource('/service/widget-cdn/catalogue.json'), multi: true}
+ */
+export interface RuntimeWidgetSource {
+    readonly name: string;
+    listWidgets(context: RuntimeWidgetSourceContext): Promise<RuntimeWidgetSourceEntry[]>;
+}
+
+export const RUNTIME_WIDGET_SOURCES = new InjectionToken<RuntimeWidgetSource[]>('RUNTIME_WIDGET_SOURCES');
@@ -0,0 +1,158 @@
+/*
+* Copyright (c) 2020 Software AG, Darmstadt, Germany and/or its licensors
+*
+* SPDX-License-Identifier: Apache-2.0
+*
+* Licensed under the Apache License, Version 2.0 (the "License");
+* you may not use this file except in compliance with the License.
+* You may obtain a copy of the License at
+*
+*    http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing, software
+* distributed under the License is distributed on an "AS IS" BASIS,
+* WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+* See the License for the specific language governing permissions and
+* limitations under the License.
+ */
+
+import {GLOBAL_RUNTIME_CONTEXT_TYPE, IAppRuntimeContext, RuntimeContextRepository} from "./runtime-context-repository";
+import {RuntimeWidgetIndexEntry} from "./runtime-widget-index";
+import {RuntimeWidgetSource, RuntimeWidgetSourceContext, RuntimeWidgetSourceEntry} from "./runtime-widget-source";
+
+/**
+ * The widgets listed in the current application's widgetContextPaths (how widgets were installed before the app_runtimeContext)
+ */
+export class HostedApplicationWidgetSource implements RuntimeWidgetSource {
+    readonly name = 'hosted-application';
+
+    async listWidgets(context: RuntimeWidgetSourceContext): Promise<RuntimeWidgetSourceEntry[]> {
+        const widgetContextPaths: string[] = (context.app as any).widgetContextPaths || [];
+        return widgetContextPaths.map(contextPath => ({contextPath}));
+    }
+}
+
+/**
+ * The widgets listed in the current application's app_runtimeContext, and the tenant-wide widgets that the application hasn't opted out of
+ */
+export class InventoryWidgetSource implements RuntimeWidgetSource {
+    readonly name = 'inventory';
+
+    constructor(private runtimeContextRepository: RuntimeContextRepository) {}
+
+    async listWidgets(context: RuntimeWidgetSourceContext): Promise<RuntimeWidgetSourceEntry[]> {
+        const app = context.app;
+        const AppRuntimePath = await context.fetchOrCached<IAppRuntimeContext | undefined>(`app_runtimeContext:${app.id}`, () =>
+            this.runtimeContextRepository.find(String(app.id))
+        );
+        const GlobalRuntimePath = await context.fetchOrCached<IAppRuntimeContext | undefined>(GLOBAL_RUNTIME_CONTEXT_TYPE, () =>
+            this.runtimeContextRepository.find(undefined)
+        );
+
+        // Tenant-wide widgets are loaded too, unless this app has opted out of them
+        const excludedGlobalWidgets: string[] = (AppRuntimePath && AppRuntimePath.excludedGlobalWidgets) || [];
+        const contextPaths: string[] = Array.from(new Set([
+            ...(AppRuntimePath && AppRuntimePath.widgetContextPaths) || [],
+            ...((GlobalRuntimePath && GlobalRuntimePath.widgetContextPaths) || []).filter(contextPath => !excludedGlobalWidgets.includes(contextPath))
+        ]));
+        const widgetIndex: RuntimeWidgetIndexEntry[] = [
+            ...(AppRuntimePath && AppRuntimePath.widgetIndex) || [],
+            ...(GlobalRuntimePath && GlobalRuntimePath.widgetIndex) || []
+        ];
+        return contextPaths.map(contextPath => ({
+            contextPath,
+            widgetIndex: widgetIndex.filter(entry => entry.contextPath === contextPath)
+        }));
+    }
+}
+
+/**
+ * A list of widgets, each served from a url (or from a Cumulocity hosted application if no url is given)
+ * Relative urls are relative to the catalogue
+ */
+export interface RuntimeWidgetCatalogue {
+    widgets: {
+        contextPath: string;
+        url?: string;
+        widgets?: RuntimeWidgetIndexEntry[];
+    }[];
+}
+
+/**
+ * The widgets listed in a static JSON catalogue (a RuntimeWidgetCatalogue), eg. one served by a shared widget microservice
+ */
+export class CatalogueWidgetSource implements RuntimeWidgetSource {
+    readonly name: string;
+
+    constructor(private catalogueUrl: string) {
+        this.name = `catalogue: ${catalogueUrl}`;
+    }
+
+    async listWidgets(context: RuntimeWidgetSourceContext): Promise<RuntimeWidgetSourceEntry[]> {
+        const catalogue = await context.fetchOrCached<RuntimeWidgetCatalogue>(`catalogue:${this.catalogueUrl}`, async () => {
+            const response = await context.fetch(this.catalogueUrl);
+            if (response.status !== 200) {
+                throw Error(`Failed to fetch the widget catalogue: ${this.catalogueUrl}, status: ${response.status}`);
+            }
+            return await response.json();
+        });
+        return catalogueEntries(catalogue, this.catalogueUrl);
+    }
+}
+
+/**
+ * The widgets listed in a tenant option, whose value is a RuntimeWidgetCatalogue
+ * By default the runtimeWidgetLoader.widgetCatalogue option, no widgets are listed if the option isn't set
+ */
+export class TenantOptionWidgetSource implements RuntimeWidgetSource {
+    readonly name: string;
+
+    constructor(private category: string = 'runtimeWidgetLoader', private key: string = 'widgetCatalogue') {
+        this.name = `tenant option: ${category}.${key}`;
+    }
+
+    async listWidgets(context: RuntimeWidgetSourceContext): Promise<RuntimeWidgetSourceEntry[]> {
+        const catalogue = await context.fetchOrCached<RuntimeWidgetCatalogue | undefined>(`tenantOption:${this.category}.${this.key}`, async () => {
+            const response = await context.fetch(`/tenant/options/${encodeURIComponent(this.category)}/${encodeURIComponent(this.key)}`);
+            if (response.status === 404) {
+                return undefined;
+            }
+            if (response.status !== 200) {
+                throw Error(`Failed to fetch the tenant option: ${this.category}.${this.key}, status: ${response.status}`);
+            }
+            return JSON.parse((await response.json()).value);
+        });
+        return catalogue ? catalogueEntries(catalogue, window.location.href) : [];
+    }
+}
+
+/**
+ * Serves the given widgets from a url prefix, each widget from <prefix>/<contextPath>/
+ * As the first source to list a widget decides where it is loaded from, this can be used to move installed widgets to a shared server
+ */
+export class UrlPrefixWidgetSource implements RuntimeWidgetSource {
+    readonly name: string;
+
+    constructor(private prefix: string, private contextPaths: string[]) {
+        this.name = `url prefix: ${prefix}`;
+    }
+
+    async listWidgets(): Promise<RuntimeWidgetSourceEntry[]> {
+        const prefix = this.prefix.replace(/\/+$/, '');
+        return this.contextPaths.map(contextPath => ({contextPath, url: `${prefix}/${contextPath}`}));
+    }
+}
+
+function catalogueEntries(catalogue: RuntimeWidgetCatalogue, catalogueUrl: string): RuntimeWidgetSourceEntry[] {
+    if (!catalogue || !Array.isArray(catalogue.widgets)) {
+        throw Error(`Widget catalogue: ${catalogueUrl}, has no widgets list`);
+    }
+    const baseUrl = new URL(catalogueUrl, window.location.href);
+    return catalogue.widgets
+        .filter(widget => widget && typeof widget.contextPath === 'string')
+        .map(widget => ({
+            contextPath: widget.contextPath,
+            ...widget.url !== undefined && {url: new URL(widget.url, baseUrl).href.replace(/\/+$/, '')},
+            ...Array.isArray(widget.widgets) && {widgetIndex: widget.widgets.map(entry => ({...entry, contextPath: widget.contextPath}))}
+        }));
+}